@@ -1,7 +1,19 @@
-import { createContextSync } from "@acoolhq/react-tiny-store";
+import {
+  createContextSync,
+  createEntityAdapter,
+  type EntityState,
+  type StoreAccess,
+} from "@acoolhq/react-tiny-store";
+
+export type { StoreAccess };
 
 export type Todo = { id: string; text: string; optimistic?: boolean };
-export type AppState = { todos: Todo[]; ui: { modalOpen: boolean } };
+export type AppState = {
+  todos: EntityState<Todo, string>;
+  ui: { modalOpen: boolean };
+};
+
+export const todosAdapter = createEntityAdapter<Todo, string>();
 
 export const {
   Provider: AppProvider,
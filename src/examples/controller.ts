@@ -1,28 +1,34 @@
 "use client";
-import { bindActions } from "./appStore";
-import { useTodos } from "./slices";
+import {
+  bindActions,
+  todosAdapter,
+  type AppState,
+  type StoreAccess,
+  type Todo,
+} from "./appStore";
 
-export const useTodosActions = bindActions(() => {
-  const { actions: todo } = useTodos();
-
-  return {
-    async addAndPersist(text: string) {
-      const tmp = { id: `tmp-${Date.now()}`, text, optimistic: true };
-      todo.add(tmp);
-      try {
-        const res = await fetch("/api/todos", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ text }),
-        });
-        if (!res.ok) throw new Error("create failed");
-        const real = await res.json();
-        todo.confirm(tmp.id, real);
-      } catch {
-        todo.remove(tmp.id);
-        const fresh = await fetch("/api/todos").then((r) => r.json());
-        todo.replaceAll(fresh);
-      }
-    },
-  };
-});
+export const useTodosActions = bindActions((api: StoreAccess<AppState>) => ({
+  async addAndPersist(text: string) {
+    const tmp: Todo = { id: `tmp-${Date.now()}`, text, optimistic: true };
+    const layer = api.optimistic((p: AppState) => ({
+      ...p,
+      todos: todosAdapter.addOne(p.todos, tmp),
+    }));
+    try {
+      const res = await fetch("/api/todos", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text }),
+      });
+      if (!res.ok) throw new Error("create failed");
+      const real: Todo = await res.json();
+      layer.commit((p: AppState) => ({
+        ...p,
+        todos: todosAdapter.addOne(p.todos, real),
+      }));
+    } catch {
+      // Only this insert is dropped; other pending layers stay applied.
+      layer.rollback();
+    }
+  },
+}));
@@ -1,32 +1,32 @@
-import { createSlice } from "./appStore";
-import type { AppState } from "./appStore";
-type Todo = AppState["todos"][number];
+import { createSlice, todosAdapter } from "./appStore";
+import type { AppState, Todo } from "./appStore";
 
-export const useTodos = createSlice((root: any) => root.todos, {
-  add(root: any, todo: Todo) {
-    return { ...root, todos: [todo, ...root.todos] };
-  },
-  confirm(root: any, tempId: string, real: Todo) {
-    return {
-      ...root,
-      todos: root.todos.map((t: any) =>
-        t.id === tempId ? { ...real, optimistic: false } : t
-      ),
-    };
-  },
-  remove(root: any, id: string) {
-    return { ...root, todos: root.todos.filter((t: any) => t.id !== id) };
-  },
-  replaceAll(root: any, next: Todo[]) {
-    return { ...root, todos: next };
+const todos = todosAdapter.updatersFor(
+  (root: AppState) => root.todos,
+  (root: AppState, next: AppState["todos"]) => ({ ...root, todos: next })
+);
+
+export const useTodos = createSlice((root: AppState) => root.todos.ids, {
+  add: todos.addOne,
+  remove: todos.removeOne,
+  replaceAll: todos.setAll,
+  confirm(root: AppState, tempId: string, real: Todo) {
+    return todos.addOne(todos.removeOne(root, tempId), {
+      ...real,
+      optimistic: false,
+    });
   },
 });
 
-export const useModal = createSlice((root: any) => root.ui.modalOpen, {
-  toggle(root: any) {
-    return { ...root, ui: { ...root.ui, modalOpen: !root.ui.modalOpen } };
-  },
-  set(root: any, v: boolean) {
-    return { ...root, ui: { ...root.ui, modalOpen: v } };
+export const useModal = createSlice(
+  (root: AppState) => root.ui.modalOpen,
+  {
+    toggle(draft: AppState) {
+      draft.ui.modalOpen = !draft.ui.modalOpen;
+    },
+    set(draft: AppState, v: boolean) {
+      draft.ui.modalOpen = v;
+    },
   },
-});
+  { draft: true }
+);
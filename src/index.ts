@@ -1,10 +1,124 @@
-export { createContextSync } from "./lib/createContextSync";
-export { batch, makeStore, type Store } from "./lib/store";
+export {
+  createContextSync,
+  type ProviderProps,
+  type ResetPolicy,
+  type InheritMode,
+} from "./lib/createContextSync";
+export { fork, overlay, type ScopeOptions } from "./lib/scope";
+export {
+  addMiddleware,
+  batch,
+  createBatchScope,
+  makeStore,
+  optimisticUpdate,
+  setDefaultScheduler,
+  type Scheduler,
+  type SchedulerOption,
+  type OptimisticHandle,
+  type Store,
+  type ReadableStore,
+  type StoreOptions,
+  type BatchScope,
+  type StoreOp,
+  type StoreWrite,
+  type StoreAction,
+  type StoreChange,
+  type SetStateOptions,
+  type Listener,
+  type ListenerErrorContext,
+  type ListenerErrorHandler,
+  type Middleware,
+} from "./lib/store";
 export {
   type StoreAccess,
   type RootFns,
+  type DraftFns,
+  type SliceOptions,
+  type SliceHook,
   createStoreSlice,
   useStoreActions,
   useStoreSelector,
+  useShallowStoreSelector,
+  useDeferredStoreSelector,
+  setInTransition,
   bindStoreActions,
 } from "./lib/hooks";
+export { shallow, deepEqual, arrayShallow } from "./lib/equality";
+export {
+  createEntityAdapter,
+  type EntityId,
+  type EntityState,
+  type EntityUpdate,
+  type EntityAdapter,
+  type EntityAdapterOptions,
+  type EntityUpdaters,
+  type EntitySelectors,
+} from "./lib/entity";
+export {
+  createAsyncAction,
+  useAsyncStatus,
+  type AsyncAccess,
+  type AsyncAction,
+  type AsyncActionOptions,
+  type AsyncMode,
+  type AsyncStatus,
+} from "./lib/async";
+export { subscribeWithSelector, type SubscribeOptions } from "./lib/subscribe";
+export {
+  dehydrate,
+  hydrate,
+  readHydrationScript,
+  HydrationScript,
+  HYDRATION_SCRIPT_ID,
+  type HydrationScriptProps,
+} from "./lib/ssr";
+export { serialize, deserialize } from "./lib/serialize";
+export {
+  useSuspenseSelector,
+  createResource,
+  type Resource,
+  type Unwrap,
+} from "./lib/suspense";
+export { produce } from "./lib/draft";
+export { derive } from "./lib/derive";
+export { focus, focusPath } from "./lib/focus";
+export { type Path, type PathValue } from "./lib/path";
+export { useTrackedState } from "./lib/tracked";
+export {
+  createSelector,
+  type MemoizedSelector,
+  type SelectorOptions,
+} from "./lib/selector";
+export {
+  connectDevtools,
+  type DevtoolsOptions,
+  type DevtoolsExtension,
+  type DevtoolsConnection,
+  type DevtoolsMessage,
+} from "./lib/devtools";
+export {
+  persist,
+  createMemoryStorage,
+  type PersistOptions,
+  type PersistStorage,
+  type PersistedValue,
+  type PersistHandle,
+  type HydrationState,
+  type HydrationStatus,
+} from "./lib/persist";
+export {
+  syncAcrossTabs,
+  createBroadcastChannel,
+  createStorageChannel,
+  type SyncTabsOptions,
+  type TabChannel,
+  type TabMessage,
+  type TabVersion,
+} from "./lib/syncTabs";
+export {
+  withHistory,
+  useHistory,
+  type HistoryOptions,
+  type HistoryState,
+  type HistoryStore,
+} from "./lib/history";
@@ -0,0 +1,181 @@
+import { type Store, makeStore } from "./store";
+import { type StoreAccess, storeAccess, useStoreSelector } from "./hooks";
+
+/**
+ * Status of an async action key.
+ * @typeParam R - Resolved data.
+ */
+export type AsyncStatus<R = unknown> = {
+  status: "idle" | "pending" | "success" | "error";
+  /** Last resolved value (kept while a new call is pending). */
+  data?: R;
+  /** Rejection of the last failed call. */
+  error?: unknown;
+};
+
+/**
+ * How overlapping calls are handled:
+ * - `"takeLatest"`: a new call aborts the running one; only the latest updates status.
+ * - `"takeFirst"`: calls made while one is running return the running promise.
+ * - `"queue"`: calls run one after another, in order.
+ */
+export type AsyncMode = "takeLatest" | "takeFirst" | "queue";
+
+/**
+ * Options for {@link createAsyncAction}.
+ */
+export type AsyncActionOptions = {
+  /** Concurrency mode (default `"takeLatest"`). */
+  mode?: AsyncMode;
+};
+
+/**
+ * Store access handed to async action bodies, plus the call's abort signal.
+ * @typeParam T - Root state.
+ */
+export type AsyncAccess<T> = StoreAccess<T> & { signal: AbortSignal };
+
+/** Async action returned by {@link createAsyncAction}. */
+export type AsyncAction<A extends unknown[], R> = ((
+  ...args: A
+) => Promise<R>) & {
+  /** Abort the running call, if any. */
+  abort: () => void;
+};
+
+const IDLE: AsyncStatus<any> = { status: "idle" };
+
+const registry = new WeakMap<object, Store<Record<string, AsyncStatus>>>();
+
+/**
+ * Statuses recorded for a store's async actions, keyed by action key.
+ * @internal
+ */
+export function asyncStatusStore(
+  store: Store<any>
+): Store<Record<string, AsyncStatus>> {
+  let statuses = registry.get(store);
+  if (!statuses) registry.set(store, (statuses = makeStore({})));
+  return statuses;
+}
+
+function abortError(message: string) {
+  return new DOMException(message, "AbortError");
+}
+
+/**
+ * Wrap an async operation so its `pending` / `success` / `error` status is
+ * recorded per `key` and overlapping calls follow a concurrency `mode`.
+ *
+ * Superseded `"takeLatest"` calls are aborted through `signal` and never touch
+ * the recorded status.
+ *
+ * @typeParam T - Root state.
+ * @typeParam A - Call arguments.
+ * @typeParam R - Resolved data.
+ * @param store - The store the action works on.
+ * @param key - Status key, read back with {@link useAsyncStatus}.
+ * @param fn - `(api, ...args) => Promise<R>`; `api.signal` aborts on supersede.
+ * @param options - {@link AsyncActionOptions}.
+ * @returns The async action, with an extra `abort()` method.
+ * @category Controllers
+ *
+ * @example
+ * const loadTodos = createAsyncAction(store, "todos/load", async (api, q: string) => {
+ *   const res = await fetch(`/api/todos?q=${q}`, { signal: api.signal });
+ *   const todos = await res.json();
+ *   api.set((p) => ({ ...p, todos }));
+ *   return todos;
+ * });
+ *
+ * function Spinner() {
+ *   const { status } = useAsyncStatus(store, "todos/load");
+ *   return status === "pending" ? <Spin /> : null;
+ * }
+ */
+export function createAsyncAction<T, A extends unknown[], R>(
+  store: Store<T>,
+  key: string,
+  fn: (api: AsyncAccess<T>, ...args: A) => Promise<R>,
+  options: AsyncActionOptions = {}
+): AsyncAction<A, R> {
+  const { mode = "takeLatest" } = options;
+  const statuses = asyncStatusStore(store);
+  const access = storeAccess(store);
+  let current: AbortController | undefined;
+  let running: Promise<R> | undefined;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const record = (next: (prev: AsyncStatus<R>) => AsyncStatus<R>) =>
+    statuses.setState((p) => ({
+      ...p,
+      [key]: next((p[key] as AsyncStatus<R>) ?? IDLE),
+    }));
+
+  const run = (args: A): Promise<R> => {
+    current?.abort(abortError("Superseded by a newer call"));
+    const controller = (current = new AbortController());
+    const isCurrent = () => current === controller;
+    record((p) => ({ status: "pending", data: p.data }));
+
+    const promise = Promise.resolve()
+      .then(() => fn({ ...access, signal: controller.signal }, ...args))
+      .then(
+        (data) => {
+          if (isCurrent()) record(() => ({ status: "success", data }));
+          return data;
+        },
+        (error) => {
+          if (isCurrent())
+            record((p) => ({ status: "error", data: p.data, error }));
+          throw error;
+        }
+      );
+    const settle = () => {
+      if (running === promise) running = undefined;
+    };
+    running = promise;
+    promise.then(settle, settle);
+    return promise;
+  };
+
+  const action = (...args: A): Promise<R> => {
+    if (mode === "takeFirst" && running) return running;
+    if (mode === "queue") {
+      const next = queue.then(() => run(args));
+      queue = next.catch(() => {});
+      return next;
+    }
+    return run(args);
+  };
+
+  return Object.assign(action, {
+    abort() {
+      if (!current) return;
+      current.abort(abortError("Aborted"));
+      current = undefined;
+      if (!running) return;
+      running = undefined; // a takeFirst call after abort() starts fresh
+      record((p) => ({ status: "idle", data: p.data }));
+    },
+  });
+}
+
+/**
+ * Read the status recorded by {@link createAsyncAction} for `key`.
+ *
+ * @typeParam R - Resolved data.
+ * @param store - The store the action was created on.
+ * @param key - Status key.
+ * @returns The {@link AsyncStatus} (`{ status: "idle" }` before the first call).
+ * @category Controllers
+ */
+export function useAsyncStatus<R = unknown>(
+  store: Store<any>,
+  key: string
+): AsyncStatus<R> {
+  return useStoreSelector(
+    asyncStatusStore(store),
+    (s) => (s[key] as AsyncStatus<R>) ?? IDLE
+  );
+}
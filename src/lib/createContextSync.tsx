@@ -1,30 +1,130 @@
 import * as React from "react";
-import { type Store, makeStore } from "./store";
+import { type Store, holdNotifications, makeStore } from "./store";
 import {
+  type DraftFns,
   type RootFns,
+  type SliceHook,
+  type SliceOptions,
   type StoreAccess,
   createStoreSlice,
   useStoreActions,
   useStoreSelector,
+  useShallowStoreSelector,
+  useDeferredStoreSelector,
+  useIsoLayoutEffect,
 } from "./hooks";
+import { useTrackedState as useTrackedStoreState } from "./tracked";
+import { focus, focusPath } from "./focus";
+import { fork, overlay } from "./scope";
+import { useSuspenseSelector as useStoreSuspenseSelector } from "./suspense";
+import {
+  type AsyncAccess,
+  type AsyncActionOptions,
+  createAsyncAction,
+  useAsyncStatus as useStoreAsyncStatus,
+} from "./async";
+import { type Path, type PathValue } from "./path";
+import {
+  HYDRATION_SCRIPT_ID,
+  HydrationScript as StoreHydrationScript,
+  hydrate,
+  readHydrationScript,
+} from "./ssr";
 
 /* =============================================================================
    Context wrapper (Provider) that reuses the same store-param helpers
-   - Provider creates the store once with initial
+   - Provider owns a store created from initial, or wraps an external one
    - useSelector/actions/slice just bind to the context store
-   - Server snapshot comes from store.getInitialState() (no extra arg)
+   - Server snapshot comes from store.getServerState() (initial state unless
+     pinned by dehydrate/hydrate)
 ============================================================================= */
 
+/**
+ * How a Provider reacts when `resetOn` changes:
+ * - `"replace"`: keep the store and `replace` its state with `initial`
+ *   (or `reset()` an external store given without `initial`).
+ * - `"recreate"`: create a fresh store from `initial`. Ignored for external stores.
+ */
+export type ResetPolicy = "replace" | "recreate";
+
+/**
+ * How a nested Provider starts from its parent Provider's store:
+ * - `"fork"`: an independent copy of the parent's current value (plus `initial` fields).
+ * - `"overlay"`: the parent's live state with `initial` fields layered on top.
+ */
+export type InheritMode = "fork" | "overlay";
+
+/**
+ * Props of the Provider returned by {@link createContextSync}: an `initial`
+ * state for an owned store, an existing `store`, or an `inherit` mode.
+ * @typeParam T - Root state shape.
+ */
+export type ProviderProps<T> = {
+  children: React.ReactNode;
+  /** Scope name, for `useScope(name)` in descendants. */
+  name?: string;
+  /** Re-initialize when any of these values changes identity (e.g. `[userId]`). */
+  resetOn?: readonly unknown[];
+  /** What re-initializing means (default `"replace"`). */
+  resetPolicy?: ResetPolicy;
+  /** Hydrate from the `<HydrationScript id>` rendered by the server. */
+  hydrationId?: string;
+} & (
+  | { initial: T; store?: undefined; inherit?: undefined }
+  | {
+      /** Start from the nearest parent Provider's store. */
+      inherit: InheritMode;
+      /** Fields to override (fork) or layer on top (overlay). */
+      initial?: Partial<T>;
+      /** Also write this scope's changes to the parent store. */
+      writeBack?: boolean;
+      store?: undefined;
+    }
+  | {
+      /** A store created outside React; the Provider does not own it. */
+      store: Store<T>;
+      /** State to `replace` with when `resetOn` changes (default: `reset()`). */
+      initial?: T;
+      inherit?: undefined;
+    }
+);
+
+/** A Provider in the tree, linked to the Provider above it. */
+type ScopeNode<T> = {
+  store: Store<T>;
+  name?: string;
+  parent: ScopeNode<T> | null;
+};
+
+function sameDeps(a: readonly unknown[] = [], b: readonly unknown[] = []) {
+  return a.length === b.length && a.every((v, i) => Object.is(v, b[i]));
+}
+
+function createStore<T>(initial: T, hydrationId?: string): Store<T> {
+  const store = makeStore<T>(initial);
+  if (hydrationId)
+    hydrate({ [hydrationId]: store }, readHydrationScript(hydrationId));
+  return store;
+}
+
 /**
  * Creates a typed Context wrapper around an internal store.
  *
  * @typeParam T - Root state shape.
  * @returns An object with:
- * - `Provider`: `<Provider initial>{children}</Provider>`
- * - `useSelector(selector, isEqual?)`
+ * - `Provider`: `<Provider initial | store | inherit name? resetOn? resetPolicy? hydrationId?>{children}</Provider>`
+ * - `HydrationScript`: `<HydrationScript id? nonce? />` (SSR payload for the Provider)
+ * - `useSelector(selector, isEqual?)` / `useShallowSelector(selector)`
+ * - `useDeferredSelector(selector, isEqual?)` -> `[value, isPending]`, lags behind updates
+ * - `useSuspenseSelector(selector, key?)` -> suspends on pending promises / resources
+ * - `useStoreApi()` -> the underlying `Store<T>`
+ * - `useScope(level | name)` -> an ancestor Provider's `Store<T>`
+ * - `useTrackedState()`
+ * - `useFocus(selector, setter)` / `useFocusPath(path)` -> narrowed `Store`
  * - `useActions(factory, deps?)`
  * - `bindActions(factory) -> (deps?) => actions`
- * - `createSlice(select, fns) -> () => { state, get, actions }`
+ * - `useAsyncAction(key, fn, options?)` / `useAsyncStatus(key)`
+ * - `createSlice(select, fns, options?) -> () => { state, get, actions }`
  * @category Store
  *
  * @example
@@ -40,27 +140,138 @@ import {
  * }
  */
 export function createContextSync<T>() {
-  const Ctx = React.createContext<Store<T> | null>(null);
+  const Ctx = React.createContext<ScopeNode<T> | null>(null);
+
+  function Provider(props: ProviderProps<T>) {
+    const {
+      children,
+      name,
+      store: external,
+      resetOn,
+      resetPolicy = "replace",
+      hydrationId,
+    } = props;
+    const parent = React.useContext(Ctx);
+    // Inherited scopes always re-fork from the parent on reset.
+    const recreate =
+      !external && (resetPolicy === "recreate" || props.inherit !== undefined);
 
-  function Provider({
-    children,
-    initial,
+    const create = (first: boolean): Store<T> => {
+      if (props.inherit === undefined)
+        return createStore(props.initial as T, first ? hydrationId : undefined);
+      if (!parent)
+        throw new Error(
+          "react-tiny-store: <Provider inherit> must be nested in another Provider"
+        );
+      return props.inherit === "fork"
+        ? fork(parent.store, props.initial, props)
+        : overlay(parent.store, props.initial ?? {}, props);
+    };
+
+    // Count identity changes of `resetOn` (render-phase update, no extra commit).
+    const [reset, setReset] = React.useState({ deps: resetOn, generation: 0 });
+    let generation = reset.generation;
+    const changed = !sameDeps(reset.deps, resetOn);
+    if (changed) {
+      generation++;
+      setReset({ deps: resetOn, generation });
+    }
+
+    const held = React.useRef<(() => void) | undefined>(undefined);
+    const [own, setOwn] = React.useState(() =>
+      external ? undefined : { generation, store: create(true) }
+    );
+    let store = external ?? own?.store;
+    if (!store || (recreate && own?.generation !== generation)) {
+      const created = create(false);
+      setOwn({ generation, store: created });
+      store = created;
+    } else if (changed && !recreate) {
+      // Re-initialize before any child reads the store, so none of them
+      // renders (or runs effects) with the previous state. Only this store's
+      // subscribers wait: they are notified after the commit (or on the next
+      // microtask if this render is discarded), never mid-render.
+      const release = holdNotifications(store);
+      try {
+        if (props.initial !== undefined) store.replace(props.initial);
+        else store.reset();
+      } finally {
+        held.current = release;
+        queueMicrotask(release);
+      }
+    }
+
+    useIsoLayoutEffect(() => {
+      held.current?.();
+      held.current = undefined;
+    });
+
+    const node = React.useMemo(
+      () => ({ store, name, parent }),
+      [store, name, parent]
+    );
+    return <Ctx.Provider value={node}>{children}</Ctx.Provider>;
+  }
+
+  /**
+   * Render the Provider's state for {@link hydrate} on the client. Pass the
+   * same `id` to the client Provider's `hydrationId`.
+   */
+  function HydrationScript({
+    id = HYDRATION_SCRIPT_ID,
+    nonce,
   }: {
-    children: React.ReactNode;
-    initial: T;
+    id?: string;
+    nonce?: string;
   }) {
-    const [store] = React.useState(() => makeStore<T>(initial));
-    return <Ctx.Provider value={store}>{children}</Ctx.Provider>;
+    return (
+      <StoreHydrationScript
+        stores={{ [id]: useStore() }}
+        id={id}
+        nonce={nonce}
+      />
+    );
   }
 
   /** @internal */
   function useStore(): Store<T> {
-    const store = React.useContext(Ctx);
-    if (!store)
+    const node = React.useContext(Ctx);
+    if (!node)
       throw new Error(
         "react-context-sync: hooks must be used within <Provider>"
       );
-    return store;
+    return node.store;
+  }
+
+  /**
+   * Read an ancestor Provider's store explicitly.
+   *
+   * @param level - `0` for the nearest Provider, `1` for its parent, ... or a
+   *   Provider `name`.
+   * @returns That Provider's `Store<T>`, for `useStoreSelector` and friends.
+   */
+  function useScope(level: number | string = 0): Store<T> {
+    let node = React.useContext(Ctx);
+    if (typeof level === "number")
+      for (let i = 0; node && i < level; i++) node = node.parent;
+    else while (node && node.name !== level) node = node.parent;
+    if (!node)
+      throw new Error(
+        typeof level === "number"
+          ? `react-tiny-store: no Provider ${level} level(s) up`
+          : `react-tiny-store: no Provider named "${level}"`
+      );
+    return node.store;
+  }
+
+  /**
+   * Escape hatch: the Provider's underlying store, for imperative reads and
+   * non-React helpers (`subscribeWithSelector`, `persist`, ...).
+   *
+   * @returns The `Store<T>` of the nearest Provider.
+   */
+  function useStoreApi(): Store<T> {
+    return useStore();
   }
 
   /**
@@ -78,6 +289,85 @@ export function createContextSync<T>() {
     return useStoreSelector(useStore(), selector, isEqual);
   }
 
+  /**
+   * `useSelector` with `shallow` equality.
+   *
+   * @typeParam S - Selected slice shape.
+   * @param selector - Pure selector `(root) => slice`.
+   * @returns The selected value, kept stable while it is shallowly equal.
+   */
+  function useShallowSelector<S>(selector: (root: T) => S) {
+    return useShallowStoreSelector(useStore(), selector);
+  }
+
+  /**
+   * Deferred `useSelector`: lags behind store updates so heavy subtrees render
+   * in the background.
+   *
+   * @typeParam S - Selected slice shape.
+   * @param selector - Pure selector `(root) => slice`.
+   * @param isEqual - Optional equality (default `Object.is`).
+   * @returns `[value, isPending]`.
+   */
+  function useDeferredSelector<S>(
+    selector: (root: T) => S,
+    isEqual?: (a: S, b: S) => boolean
+  ) {
+    return useDeferredStoreSelector(useStore(), selector, isEqual);
+  }
+
+  /**
+   * Select from the context store and suspend while the value is a pending
+   * promise or `Resource`; rejections go to the nearest error boundary.
+   *
+   * @typeParam S - Selected value (promise, resource or plain).
+   * @param selector - Pure selector `(root) => slice`.
+   * @param key - Cache key for the selection (default: the selector's source).
+   * @returns The settled value.
+   */
+  function useSuspenseSelector<S>(selector: (root: T) => S, key?: string) {
+    return useStoreSuspenseSelector(useStore(), selector, key);
+  }
+
+  /**
+   * Read the context state through a tracking proxy; re-renders only when a
+   * path read during the last render changes.
+   *
+   * @returns A read-only proxy of the current state.
+   */
+  function useTrackedState() {
+    return useTrackedStoreState(useStore() as Store<T & object>) as T;
+  }
+
+  /**
+   * Get a narrowed store focused on a sub-tree of the context store, e.g. to pass
+   * to child components. Pass stable `selector` / `setter` functions.
+   *
+   * @typeParam S - Focused value.
+   * @returns A `Store<S>` (see `focus`).
+   */
+  function useFocus<S>(
+    selector: (root: T) => S,
+    setter: (root: T, value: S) => T
+  ): Store<S> {
+    const store = useStore();
+    return React.useMemo(
+      () => focus(store, selector, setter),
+      [store, selector, setter]
+    );
+  }
+
+  /**
+   * Get a narrowed store focused on a type-checked dot-path of the context store.
+   *
+   * @typeParam P - Dot-path into `T`.
+   * @returns A `Store` of the value at `path` (see `focusPath`).
+   */
+  function useFocusPath<P extends Path<T>>(path: P): Store<PathValue<T, P>> {
+    const store = useStore();
+    return React.useMemo(() => focusPath(store, path), [store, path]);
+  }
+
   /**
    * Build **controller** actions (side-effects/async allowed) from the context store.
    *
@@ -104,9 +394,46 @@ export function createContextSync<T>() {
     return (deps: any[] = []) => useStoreActions(useStore(), factory, deps);
   }
 
+  /**
+   * Bind an async action (see `createAsyncAction`) to the context store.
+   * @typeParam A - Call arguments.
+   * @typeParam R - Resolved data.
+   * @returns The async action; stable for the lifetime of the Provider's store.
+   * @category Controllers
+   */
+  function useAsyncAction<A extends unknown[], R>(
+    key: string,
+    fn: (api: AsyncAccess<T>, ...args: A) => Promise<R>,
+    options?: AsyncActionOptions
+  ) {
+    const store = useStore();
+    const fnRef = React.useRef(fn);
+    fnRef.current = fn;
+    return React.useMemo(
+      () =>
+        createAsyncAction(
+          store,
+          key,
+          (api, ...args: A) => fnRef.current(api, ...args),
+          options
+        ),
+      [store, key, options?.mode]
+    );
+  }
+
+  /**
+   * Read the status of an async action key on the context store.
+   * @typeParam R - Resolved data.
+   * @category Controllers
+   */
+  function useAsyncStatus<R = unknown>(key: string) {
+    return useStoreAsyncStatus<R>(useStore(), key);
+  }
+
   /**
    * Create a **pure slice** hook from the context store.
-   * Actions must be pure updaters that return the **next root state**.
+   * Actions must be pure updaters that return the **next root state**,
+   * or mutate a draft root when `{ draft: true }` is passed.
    * @typeParam S - Selected slice.
    * @typeParam FNS - Pure updater map `(root, ...args) => nextRoot`.
    * @returns `() => { state, get, actions }`
@@ -114,10 +441,39 @@ export function createContextSync<T>() {
    */
   function createSlice<S, FNS extends RootFns<T>>(
     select: (root: T) => S,
-    fns: FNS
-  ) {
-    return () => createStoreSlice(useStore(), select, fns)();
+    fns: FNS,
+    options?: SliceOptions & { draft?: false }
+  ): SliceHook<S, FNS>;
+  function createSlice<S, FNS extends DraftFns<T>>(
+    select: (root: T) => S,
+    fns: FNS,
+    options: SliceOptions & { draft: true }
+  ): SliceHook<S, FNS>;
+  function createSlice<S, FNS extends DraftFns<T>>(
+    select: (root: T) => S,
+    fns: FNS,
+    options?: SliceOptions
+  ): SliceHook<S, FNS> {
+    return () =>
+      createStoreSlice(useStore(), select, fns, options as { draft: true })();
   }
 
-  return { Provider, useSelector, useActions, bindActions, createSlice };
+  return {
+    Provider,
+    HydrationScript,
+    useStoreApi,
+    useScope,
+    useSelector,
+    useShallowSelector,
+    useDeferredSelector,
+    useSuspenseSelector,
+    useTrackedState,
+    useFocus,
+    useFocusPath,
+    useActions,
+    bindActions,
+    useAsyncAction,
+    useAsyncStatus,
+    createSlice,
+  };
 }
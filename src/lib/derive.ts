@@ -0,0 +1,128 @@
+import {
+  type Listener,
+  type ReadableStore,
+  type StoreAction,
+  type StoreChange,
+  enqueueNotify,
+  notifyListeners,
+  serverSnapshot,
+} from "./store";
+
+/** Map a tuple of stores to the tuple of their state types. */
+type StatesOf<S extends readonly ReadableStore<any>[]> = {
+  [K in keyof S]: S[K] extends ReadableStore<infer T> ? T : never;
+};
+
+class DerivedStore<A extends unknown[], R> implements ReadableStore<R> {
+  private _listeners = new Set<Listener<R>>();
+  private _actions: StoreAction[] = [];
+  private _unsubs: Array<() => void> = [];
+  private _inputs: A | undefined;
+  private _value!: R;
+  private _notified: R | undefined;
+
+  constructor(
+    private readonly _stores: readonly ReadableStore<unknown>[],
+    private readonly _fn: (...states: A) => R,
+    private readonly _isEqual: (a: R, b: R) => boolean
+  ) {}
+
+  /** Recompute only when an input state changed since the last read. */
+  getState = (): R => {
+    const inputs = this._stores.map((s) => s.getState()) as A;
+    const prev = this._inputs;
+    if (prev && inputs.every((v, i) => Object.is(v, prev[i])))
+      return this._value;
+    const next = this._fn(...inputs);
+    if (!prev || !this._isEqual(this._value, next)) this._value = next;
+    this._inputs = inputs;
+    return this._value;
+  };
+
+  getInitialState = this._cached((s) => s.getInitialState());
+
+  /** Stable while the inputs' server snapshots are, as React requires. */
+  getServerState = this._cached((s) => serverSnapshot(s));
+
+  /** Compute from `read` of each input, cached while those are unchanged. */
+  private _cached(read: (store: ReadableStore<unknown>) => unknown) {
+    let inputs: A | undefined;
+    let value!: R;
+    return (): R => {
+      const next = this._stores.map(read) as A;
+      if (!inputs || next.some((v, i) => !Object.is(v, inputs![i]))) {
+        value = this._fn(...next);
+        inputs = next;
+      }
+      return value;
+    };
+  }
+
+  private _notify = () => {
+    const actions = this._actions;
+    this._actions = [];
+    const value = this.getState();
+    if (Object.is(value, this._notified)) return;
+    const change: StoreChange<R> = {
+      prev: this._notified as R,
+      next: value,
+      action: actions[actions.length - 1],
+      actions,
+    };
+    this._notified = value;
+    notifyListeners(this, this._listeners, change);
+  };
+
+  private _onInput = (change: StoreChange<unknown>) => {
+    this._actions.push(...change.actions);
+    enqueueNotify(this._notify);
+  };
+
+  subscribe = (l: Listener<R>) => {
+    if (this._listeners.size === 0) {
+      this._notified = this.getState();
+      this._unsubs = this._stores.map((s) => s.subscribe(this._onInput));
+    }
+    this._listeners.add(l);
+    return () => {
+      if (this._listeners.delete(l) && this._listeners.size === 0) {
+        for (const u of this._unsubs) u();
+        this._unsubs = [];
+      }
+    };
+  };
+}
+
+/**
+ * Create a read-only store computed from other stores.
+ *
+ * - Recomputes lazily, only when one of the input states changed.
+ * - Notifies at most once per `batch()`, and only when the result changed
+ *   according to `isEqual`.
+ * - Subscribes to its inputs only while it has listeners of its own.
+ *
+ * @typeParam S - Tuple of input stores.
+ * @typeParam R - Derived value.
+ * @param stores - Input stores.
+ * @param fn - Pure `(...states) => result`.
+ * @param isEqual - Keep the previous result when equal (default `Object.is`).
+ * @returns A {@link ReadableStore} usable with `useStoreSelector`.
+ * @category Store
+ *
+ * @example
+ * const total = derive([cart, pricing], (c, p) =>
+ *   c.items.reduce((sum, i) => sum + i.qty * p.prices[i.sku], 0)
+ * );
+ * const value = useStoreSelector(total, (t) => t);
+ */
+export function derive<const S extends readonly ReadableStore<any>[], R>(
+  stores: S,
+  fn: (...states: StatesOf<S>) => R,
+  isEqual: (a: R, b: R) => boolean = Object.is
+): ReadableStore<R> {
+  return new DerivedStore<StatesOf<S> & unknown[], R>(
+    stores,
+    fn as (...states: StatesOf<S> & unknown[]) => R,
+    isEqual
+  );
+}
@@ -0,0 +1,127 @@
+import { type Store, addMiddleware, confirmedState } from "./store";
+
+/** Message sent by the Redux DevTools extension to a connected instance. */
+export type DevtoolsMessage = {
+  type: string;
+  payload?: { type: string };
+  state?: string;
+};
+
+/** The subset of a Redux DevTools connection used by {@link connectDevtools}. */
+export type DevtoolsConnection = {
+  init: (state: unknown) => void;
+  send: (
+    action: { type: string; [k: string]: unknown },
+    state: unknown
+  ) => void;
+  subscribe: (
+    listener: (message: DevtoolsMessage) => void
+  ) => (() => void) | void;
+  unsubscribe?: () => void;
+};
+
+/** The subset of `window.__REDUX_DEVTOOLS_EXTENSION__` used by {@link connectDevtools}. */
+export type DevtoolsExtension = {
+  connect: (options: { name?: string }) => DevtoolsConnection;
+};
+
+/**
+ * Options for {@link connectDevtools}.
+ */
+export type DevtoolsOptions = {
+  /** Instance name shown in the DevTools instance picker. */
+  name?: string;
+  /** Extension to connect to (default `window.__REDUX_DEVTOOLS_EXTENSION__`). */
+  extension?: DevtoolsExtension;
+};
+
+function findExtension(): DevtoolsExtension | undefined {
+  if (typeof window === "undefined") return undefined;
+  return (window as any).__REDUX_DEVTOOLS_EXTENSION__;
+}
+
+/**
+ * Report a store's writes to the Redux DevTools extension and accept
+ * time-travel messages back from it.
+ *
+ * - Each `setState` / `replace` / `reset` is sent as an action named after the
+ *   `createStoreSlice` key that produced it, or after the store operation.
+ * - `JUMP_TO_STATE` / `JUMP_TO_ACTION` replace the store state (without re-reporting it).
+ * - `RESET` resets the store, `COMMIT` makes the current state the new baseline,
+ *   and `ROLLBACK` restores the last committed state.
+ *
+ * Does nothing when the extension is not installed.
+ *
+ * @typeParam T - State shape.
+ * @param store - A store created by `makeStore`.
+ * @param options - {@link DevtoolsOptions}.
+ * @returns A function that disconnects the store from DevTools.
+ * @category Devtools
+ *
+ * @example
+ * const store = makeStore({ count: 0 });
+ * const disconnect = connectDevtools(store, { name: "counter" });
+ */
+export function connectDevtools<T>(
+  store: Store<T>,
+  options: DevtoolsOptions = {}
+): () => void {
+  const ext = options.extension ?? findExtension();
+  if (!ext) return () => {};
+
+  const conn = ext.connect({ name: options.name });
+  conn.init(confirmedState(store));
+
+  let travelling = false;
+  const travel = (fn: () => void) => {
+    travelling = true;
+    try {
+      fn();
+    } finally {
+      travelling = false;
+    }
+  };
+
+  const detach = addMiddleware(store, ({ op, prev, next, action }) => {
+    if (!travelling && !Object.is(prev, next)) {
+      conn.send(
+        action ? { type: action.type, args: action.args } : { type: op },
+        next
+      );
+    }
+    return next;
+  });
+
+  const unsubscribe = conn.subscribe((message) => {
+    if (message.type !== "DISPATCH" || !message.payload) return;
+    switch (message.payload.type) {
+      case "JUMP_TO_STATE":
+      case "JUMP_TO_ACTION":
+        if (message.state != null) {
+          const next = JSON.parse(message.state) as T;
+          travel(() => store.replace(next));
+        }
+        break;
+      case "RESET":
+        travel(() => store.reset());
+        conn.init(confirmedState(store));
+        break;
+      case "COMMIT":
+        conn.init(confirmedState(store));
+        break;
+      case "ROLLBACK":
+        if (message.state != null) {
+          const next = JSON.parse(message.state) as T;
+          travel(() => store.replace(next));
+          conn.init(confirmedState(store));
+        }
+        break;
+    }
+  });
+
+  return () => {
+    detach();
+    if (typeof unsubscribe === "function") unsubscribe();
+    conn.unsubscribe?.();
+  };
+}
@@ -0,0 +1,166 @@
+/* =============================================================================
+   Copy-on-write drafts (a tiny, dependency-free `produce`)
+   - Plain objects and arrays are drafted lazily, on first read
+   - Writes copy only the touched object and its parents
+   - Untouched branches keep their identity in the result
+============================================================================= */
+
+type DraftState = {
+  base: any;
+  /** Shallow copy, created on first write. */
+  copy: any;
+  parent: DraftState | null;
+  /** Child drafts for keys that still hold their base value. */
+  drafts: Map<PropertyKey, any>;
+  /** Keys written (or deleted) on this draft. */
+  assigned: Set<PropertyKey>;
+  finalized: boolean;
+  revoke: () => void;
+};
+
+type Scope = DraftState[];
+
+const states = new WeakMap<object, DraftState>();
+
+function isDraftable(v: unknown): v is object {
+  if (typeof v !== "object" || v === null) return false;
+  const proto = Object.getPrototypeOf(v);
+  return Array.isArray(v) || proto === Object.prototype || proto === null;
+}
+
+const latest = (s: DraftState) => s.copy ?? s.base;
+
+const hasOwn = (o: object, key: PropertyKey) =>
+  Object.prototype.hasOwnProperty.call(o, key);
+
+function markChanged(s: DraftState) {
+  if (s.copy) return;
+  s.copy = Array.isArray(s.base) ? s.base.slice() : { ...s.base };
+  if (s.parent) markChanged(s.parent);
+}
+
+function createDraft(base: object, parent: DraftState | null, scope: Scope) {
+  const state: DraftState = {
+    base,
+    copy: null,
+    parent,
+    drafts: new Map(),
+    assigned: new Set(),
+    finalized: false,
+    revoke: () => {},
+  };
+  const { proxy, revoke } = Proxy.revocable(Array.isArray(base) ? [] : {}, {
+    get(_, key) {
+      const src = latest(state);
+      const value = src[key];
+      if (typeof key === "symbol" || !hasOwn(src, key)) return value;
+      if (state.assigned.has(key) || !isDraftable(value)) return value;
+      let child = state.drafts.get(key);
+      if (!child)
+        state.drafts.set(key, (child = createDraft(value, state, scope)));
+      return child;
+    },
+    set(_, key, value) {
+      if (!state.assigned.has(key) && state.drafts.get(key) === value)
+        return true; // writing a child draft back to its own key
+      const src = latest(state);
+      if (hasOwn(src, key) && Object.is(src[key], value)) return true;
+      markChanged(state);
+      state.copy[key] = value;
+      state.assigned.add(key);
+      state.drafts.delete(key);
+      return true;
+    },
+    deleteProperty(_, key) {
+      if (!hasOwn(latest(state), key)) return true;
+      markChanged(state);
+      delete state.copy[key];
+      state.assigned.add(key);
+      state.drafts.delete(key);
+      return true;
+    },
+    has: (_, key) => key in latest(state),
+    ownKeys: () => Reflect.ownKeys(latest(state)),
+    getOwnPropertyDescriptor(_, key) {
+      const desc = Reflect.getOwnPropertyDescriptor(latest(state), key);
+      if (!desc || (Array.isArray(base) && key === "length")) return desc;
+      return { ...desc, writable: true, configurable: true };
+    },
+    getPrototypeOf: () => Object.getPrototypeOf(base),
+    defineProperty() {
+      throw new Error(
+        "react-tiny-store: defineProperty is not supported on drafts"
+      );
+    },
+  });
+  state.revoke = revoke;
+  states.set(proxy, state);
+  scope.push(state);
+  return proxy;
+}
+
+function finalizeDraft(s: DraftState): any {
+  if (!s.copy) return s.base;
+  if (s.finalized) return s.copy;
+  s.finalized = true;
+  for (const key of Object.keys(s.copy)) {
+    if (s.assigned.has(key)) {
+      s.copy[key] = finalizeValue(s.copy[key], new Set());
+    } else {
+      const child = s.drafts.get(key);
+      if (child) s.copy[key] = finalizeDraft(states.get(child)!);
+    }
+  }
+  return s.copy;
+}
+
+/** Replace drafts nested inside a newly assigned (non-draft) value. */
+function finalizeValue(v: any, seen: Set<object>): any {
+  const s = isDraftable(v) ? states.get(v) : undefined;
+  if (s) return finalizeDraft(s);
+  if (!isDraftable(v) || seen.has(v)) return v;
+  seen.add(v);
+  for (const key of Object.keys(v)) {
+    const next = finalizeValue((v as any)[key], seen);
+    if (!Object.is(next, (v as any)[key])) (v as any)[key] = next;
+  }
+  return v;
+}
+
+/**
+ * Produce the next immutable state by mutating a draft.
+ *
+ * Plain objects and arrays are copied on write, so unchanged branches keep
+ * their identity and `Object.is` selectors on them do not fire. The recipe may
+ * also return a whole new value instead of mutating. Maps, Sets, Dates and class
+ * instances are not drafted—replace them rather than mutating them.
+ *
+ * @typeParam T - State shape.
+ * @param base - Current state (never mutated).
+ * @param recipe - Mutates `draft`, or returns the next state.
+ * @returns The next state (`base` itself when nothing changed).
+ * @category Slices
+ *
+ * @example
+ * const next = produce(state, (d) => {
+ *   d.ui.modalOpen = true;
+ *   d.todos.push({ id: "1", text: "A" });
+ * });
+ * next.settings === state.settings; // true
+ */
+export function produce<T>(base: T, recipe: (draft: T) => T | void): T {
+  if (!isDraftable(base)) {
+    const out = recipe(base);
+    return out === undefined ? base : out;
+  }
+  const scope: Scope = [];
+  const root = createDraft(base, null, scope);
+  try {
+    const out = recipe(root as T);
+    return out !== undefined && out !== root
+      ? finalizeValue(out, new Set())
+      : finalizeDraft(states.get(root)!);
+  } finally {
+    for (const s of scope) s.revoke();
+  }
+}
@@ -0,0 +1,300 @@
+import { createSelector } from "./selector";
+
+/** Key of an entity in a normalized collection. */
+export type EntityId = string | number;
+
+/**
+ * Normalized collection: ordered `ids` plus an `entities` lookup.
+ * @typeParam E - Entity.
+ * @typeParam Id - Entity key.
+ */
+export type EntityState<E, Id extends EntityId = EntityId> = {
+  ids: Id[];
+  entities: Record<Id, E>;
+};
+
+/**
+ * Partial update for `updateOne`.
+ * @typeParam E - Entity.
+ * @typeParam Id - Entity key.
+ */
+export type EntityUpdate<E, Id extends EntityId = EntityId> = {
+  id: Id;
+  changes: Partial<E>;
+};
+
+/**
+ * Options for {@link createEntityAdapter}.
+ * @typeParam E - Entity.
+ * @typeParam Id - Entity key.
+ */
+export type EntityAdapterOptions<E, Id extends EntityId = EntityId> = {
+  /** Key of an entity (default `entity.id`). */
+  selectId?: (entity: E) => Id;
+  /** Keep `ids` sorted by this comparer (default: insertion order). */
+  sortComparer?: (a: E, b: E) => number;
+};
+
+/**
+ * Updaters generated by {@link createEntityAdapter}. Each one is a pure
+ * `(root, arg) => nextRoot` that returns `root` unchanged when nothing changed,
+ * so the map plugs straight into `createStoreSlice` as `RootFns`.
+ * @typeParam R - Root the updaters work on.
+ * @typeParam E - Entity.
+ * @typeParam Id - Entity key.
+ */
+export type EntityUpdaters<R, E, Id extends EntityId = EntityId> = {
+  /** Add an entity; ignored when its id already exists. */
+  addOne: (root: R, entity: E) => R;
+  /** Add entities; existing ids are ignored. */
+  addMany: (root: R, entities: readonly E[]) => R;
+  /** Add an entity, or shallow-merge it into the existing one. */
+  upsertOne: (root: R, entity: E) => R;
+  /**
+   * Shallow-merge `changes` into an existing entity. `changes` may change its
+   * id; an entity that already had the new id is replaced.
+   */
+  updateOne: (root: R, update: EntityUpdate<E, Id>) => R;
+  /** Remove an entity by id. */
+  removeOne: (root: R, id: Id) => R;
+  /** Replace the whole collection. */
+  setAll: (root: R, entities: readonly E[]) => R;
+};
+
+/**
+ * Selectors generated by {@link EntityAdapter.getSelectors}.
+ * @typeParam R - Root the selectors read.
+ * @typeParam E - Entity.
+ * @typeParam Id - Entity key.
+ */
+export type EntitySelectors<R, E, Id extends EntityId = EntityId> = {
+  selectIds: (root: R) => Id[];
+  selectEntities: (root: R) => Record<Id, E>;
+  /** Entities in `ids` order; memoized on `ids` and `entities`. */
+  selectAll: (root: R) => E[];
+  /** One entity; stable while that entity is unchanged. */
+  selectById: (root: R, id: Id) => E | undefined;
+  selectTotal: (root: R) => number;
+};
+
+/**
+ * Adapter returned by {@link createEntityAdapter}.
+ * @typeParam E - Entity.
+ * @typeParam Id - Entity key.
+ */
+export type EntityAdapter<E, Id extends EntityId = EntityId> = EntityUpdaters<
+  EntityState<E, Id>,
+  E,
+  Id
+> & {
+  selectId: (entity: E) => Id;
+  sortComparer?: (a: E, b: E) => number;
+  /** An empty collection, or one holding `entities`. */
+  getInitialState: (entities?: readonly E[]) => EntityState<E, Id>;
+  /**
+   * Updaters for a collection nested in a larger root, e.g.
+   * `adapter.updatersFor((s: AppState) => s.todos, (s, todos) => ({ ...s, todos }))`.
+   */
+  updatersFor: <R>(
+    select: (root: R) => EntityState<E, Id>,
+    write: (root: R, state: EntityState<E, Id>) => R
+  ) => EntityUpdaters<R, E, Id>;
+  /** Selectors for the collection at `select(root)` (default: the root itself). */
+  getSelectors: {
+    (): EntitySelectors<EntityState<E, Id>, E, Id>;
+    <R>(select: (root: R) => EntityState<E, Id>): EntitySelectors<R, E, Id>;
+  };
+};
+
+const has = (entities: object, id: EntityId) =>
+  Object.prototype.hasOwnProperty.call(entities, id);
+
+/**
+ * Build a normalized `{ ids, entities }` collection with pure updaters and
+ * memoized selectors, so lookups, updates and removals by id do not scan an
+ * array.
+ *
+ * Updaters keep unchanged entities (and the `ids` array, when order does not
+ * change) by reference, so per-row components selecting with `selectById`
+ * re-render only when their own entity changes.
+ *
+ * @typeParam E - Entity.
+ * @typeParam Id - Entity key.
+ * @param options - {@link EntityAdapterOptions}.
+ * @returns An {@link EntityAdapter}.
+ * @category Slices
+ *
+ * @example
+ * const todos = createEntityAdapter<Todo>({
+ *   sortComparer: (a, b) => a.text.localeCompare(b.text),
+ * });
+ * const store = makeStore({ todos: todos.getInitialState(), filter: "all" });
+ *
+ * const useTodos = createStoreSlice(
+ *   store,
+ *   (s) => s.todos.ids,
+ *   todos.updatersFor(
+ *     (s: AppState) => s.todos,
+ *     (s, next) => ({ ...s, todos: next })
+ *   )
+ * );
+ *
+ * const { selectById, selectAll } = todos.getSelectors((s: AppState) => s.todos);
+ * function Row({ id }: { id: string }) {
+ *   const todo = useStoreSelector(store, (s) => selectById(s, id));
+ *   // re-renders only when this todo changes
+ * }
+ */
+export function createEntityAdapter<E, Id extends EntityId = EntityId>(
+  options: EntityAdapterOptions<E, Id> = {}
+): EntityAdapter<E, Id> {
+  const selectId =
+    options.selectId ?? ((entity: E) => (entity as { id: Id }).id);
+  const { sortComparer } = options;
+
+  const sortIds = (ids: Id[], entities: Record<Id, E>) =>
+    sortComparer
+      ? ids.sort((a, b) => sortComparer(entities[a], entities[b]))
+      : ids;
+
+  /** Insert `id` keeping `ids` sorted (binary search, after equal entries). */
+  const place = (ids: Id[], entities: Record<Id, E>, id: Id) => {
+    if (!sortComparer) return [...ids, id];
+    const entity = entities[id];
+    let lo = 0;
+    let hi = ids.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sortComparer(entities[ids[mid]], entity) <= 0) lo = mid + 1;
+      else hi = mid;
+    }
+    return [...ids.slice(0, lo), id, ...ids.slice(lo)];
+  };
+
+  type State = EntityState<E, Id>;
+
+  const addMany = (state: State, list: readonly E[]): State => {
+    let entities: Record<Id, E> | undefined;
+    const added: Id[] = [];
+    for (const entity of list) {
+      const id = selectId(entity);
+      if (has(entities ?? state.entities, id)) continue;
+      entities ??= { ...state.entities };
+      entities[id] = entity;
+      added.push(id);
+    }
+    if (!entities) return state;
+    if (added.length === 1)
+      return { ids: place(state.ids, entities, added[0]), entities };
+    return { ids: sortIds([...state.ids, ...added], entities), entities };
+  };
+
+  const updateOne = (state: State, { id, changes }: EntityUpdate<E, Id>) => {
+    if (!has(state.entities, id)) return state;
+    const prev = state.entities[id];
+    const next = { ...prev, ...changes } as E;
+    if (
+      Object.keys(changes).every((k) =>
+        Object.is(prev[k as keyof E], next[k as keyof E])
+      )
+    )
+      return state;
+    const nextId = selectId(next);
+    const entities = { ...state.entities };
+    if (nextId !== id) delete entities[id];
+    entities[nextId] = next;
+
+    let ids = state.ids;
+    if (sortComparer) {
+      const placed = place(
+        ids.filter((i) => i !== id && i !== nextId),
+        entities,
+        nextId
+      );
+      if (placed.length !== ids.length || placed.some((v, i) => v !== ids[i]))
+        ids = placed;
+    } else if (nextId !== id) {
+      // The renamed entity keeps its position; a previous holder of the id is dropped.
+      ids = ids.filter((i) => i !== nextId).map((i) => (i === id ? nextId : i));
+    }
+    return { ids, entities };
+  };
+
+  const base: EntityUpdaters<State, E, Id> = {
+    addOne: (state, entity) => addMany(state, [entity]),
+    addMany,
+    upsertOne(state, entity) {
+      const id = selectId(entity);
+      return has(state.entities, id)
+        ? updateOne(state, { id, changes: entity })
+        : addMany(state, [entity]);
+    },
+    updateOne,
+    removeOne(state, id) {
+      if (!has(state.entities, id)) return state;
+      const entities = { ...state.entities };
+      delete entities[id];
+      return { ids: state.ids.filter((i) => i !== id), entities };
+    },
+    setAll(_state, list) {
+      const entities = {} as Record<Id, E>;
+      const ids: Id[] = [];
+      for (const entity of list) {
+        const id = selectId(entity);
+        if (!has(entities, id)) ids.push(id);
+        entities[id] = entity;
+      }
+      return { ids: sortIds(ids, entities), entities };
+    },
+  };
+
+  function updatersFor<R>(
+    select: (root: R) => State,
+    write: (root: R, state: State) => R
+  ): EntityUpdaters<R, E, Id> {
+    const lift =
+      <A>(fn: (state: State, arg: A) => State) =>
+      (root: R, arg: A) => {
+        const prev = select(root);
+        const next = fn(prev, arg);
+        return next === prev ? root : write(root, next);
+      };
+    return {
+      addOne: lift(base.addOne),
+      addMany: lift(base.addMany),
+      upsertOne: lift(base.upsertOne),
+      updateOne: lift(base.updateOne),
+      removeOne: lift(base.removeOne),
+      setAll: lift(base.setAll),
+    };
+  }
+
+  function getSelectors<R>(
+    select: (root: R) => State = (root) => root as unknown as State
+  ): EntitySelectors<R, E, Id> {
+    const selectIds = (root: R) => select(root).ids;
+    const selectEntities = (root: R) => select(root).entities;
+    return {
+      selectIds,
+      selectEntities,
+      selectAll: createSelector([selectIds, selectEntities], (ids, entities) =>
+        ids.map((id) => entities[id])
+      ),
+      selectById: (root, id) => {
+        const entities = selectEntities(root);
+        return has(entities, id) ? entities[id] : undefined;
+      },
+      selectTotal: (root) => selectIds(root).length,
+    };
+  }
+
+  return {
+    ...base,
+    selectId,
+    sortComparer,
+    getInitialState: (entities = []) =>
+      base.setAll({ ids: [], entities: {} as Record<Id, E> }, entities),
+    updatersFor,
+    getSelectors: getSelectors as EntityAdapter<E, Id>["getSelectors"],
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Compare two arrays element by element with `Object.is`.
+ *
+ * @param a - First array.
+ * @param b - Second array.
+ * @returns `true` when both have the same length and identical items.
+ * @category Equality
+ *
+ * @example
+ * const ids = useStoreSelector(store, (s) => s.todos.map((t) => t.id), arrayShallow);
+ */
+export function arrayShallow(
+  a: readonly unknown[],
+  b: readonly unknown[]
+): boolean {
+  if (Object.is(a, b)) return true;
+  if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length)
+    return false;
+  for (let i = 0; i < a.length; i++) if (!Object.is(a[i], b[i])) return false;
+  return true;
+}
+
+/**
+ * One-level comparison: arrays by item, `Map`s by entry, `Set`s by member and
+ * plain objects by own enumerable key, all with `Object.is`.
+ *
+ * @param a - First value.
+ * @param b - Second value.
+ * @returns `true` when the top-level contents are identical.
+ * @category Equality
+ *
+ * @example
+ * const { title, done } = useStoreSelector(
+ *   store,
+ *   (s) => ({ title: s.todo.title, done: s.todo.done }),
+ *   shallow
+ * );
+ */
+export function shallow(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (!isObject(a) || !isObject(b)) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  if (Array.isArray(a)) return arrayShallow(a, b as unknown[]);
+  if (a instanceof Map) {
+    const m = b as Map<unknown, unknown>;
+    if (a.size !== m.size) return false;
+    for (const [k, v] of a)
+      if (!m.has(k) || !Object.is(v, m.get(k))) return false;
+    return true;
+  }
+  if (a instanceof Set) {
+    const s = b as Set<unknown>;
+    if (a.size !== s.size) return false;
+    for (const v of a) if (!s.has(v)) return false;
+    return true;
+  }
+
+  const ka = Object.keys(a);
+  if (ka.length !== Object.keys(b).length) return false;
+  for (const k of ka) {
+    if (
+      !Object.prototype.hasOwnProperty.call(b, k) ||
+      !Object.is((a as any)[k], (b as any)[k])
+    )
+      return false;
+  }
+  return true;
+}
+
+/**
+ * Structural comparison at every depth. Handles arrays, plain objects, `Map`,
+ * `Set`, `Date`, `RegExp` and cyclic references.
+ *
+ * Prefer {@link shallow} for selectors that build a new object from stable
+ * parts; `deepEqual` walks the whole value on every store change.
+ *
+ * @param a - First value.
+ * @param b - Second value.
+ * @returns `true` when both values have the same structure and contents.
+ * @category Equality
+ *
+ * @example
+ * const filters = useStoreSelector(store, (s) => s.query.filters, deepEqual);
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  return deepEq(a, b, new Map());
+}
+
+function isObject(v: unknown): v is object {
+  return typeof v === "object" && v !== null;
+}
+
+function deepEq(a: unknown, b: unknown, seen: Map<object, object>): boolean {
+  if (Object.is(a, b)) return true;
+  if (!isObject(a) || !isObject(b)) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  // A pair already being compared further up is assumed equal (cycles).
+  if (seen.get(a) === b) return true;
+  seen.set(a, b);
+
+  if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+  if (a instanceof RegExp) return String(a) === String(b);
+
+  if (Array.isArray(a)) {
+    const arr = b as unknown[];
+    if (a.length !== arr.length) return false;
+    for (let i = 0; i < a.length; i++)
+      if (!deepEq(a[i], arr[i], seen)) return false;
+    return true;
+  }
+  if (a instanceof Map) {
+    const m = b as Map<unknown, unknown>;
+    if (a.size !== m.size) return false;
+    for (const [k, v] of a)
+      if (!m.has(k) || !deepEq(v, m.get(k), seen)) return false;
+    return true;
+  }
+  if (a instanceof Set) {
+    const s = b as Set<unknown>;
+    if (a.size !== s.size) return false;
+    for (const v of a) {
+      if (s.has(v)) continue;
+      if (!isObject(v)) return false;
+      let found = false;
+      for (const w of s) {
+        // Fresh copy: a failed candidate must not leave pairs marked as equal.
+        if (isObject(w) && deepEq(v, w, new Map(seen))) {
+          found = true;
+          break;
+        }
+      }
+      if (!found) return false;
+    }
+    return true;
+  }
+
+  const ka = Object.keys(a);
+  if (ka.length !== Object.keys(b).length) return false;
+  for (const k of ka) {
+    if (
+      !Object.prototype.hasOwnProperty.call(b, k) ||
+      !deepEq((a as any)[k], (b as any)[k], seen)
+    )
+      return false;
+  }
+  return true;
+}
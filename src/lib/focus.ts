@@ -0,0 +1,129 @@
+import {
+  type Listener,
+  type SetStateOptions,
+  type Store,
+  addMiddleware,
+  confirmedState,
+  delegateStore,
+  holdNotifications,
+  optimisticUpdate,
+  serverSnapshot,
+} from "./store";
+import { type Path, type PathValue, getIn, setIn, toKeys } from "./path";
+
+class FocusedStore<T, S> implements Store<S> {
+  constructor(
+    private readonly _parent: Store<T>,
+    private readonly _select: (root: T) => S,
+    private readonly _write: (root: T, value: S) => T
+  ) {
+    delegateStore<S>(this, {
+      optimistic: (update) => {
+        const layer = optimisticUpdate(_parent, this._lift(update));
+        return {
+          commit: (final) => layer.commit(final && this._lift(final)),
+          rollback: layer.rollback,
+        };
+      },
+      use: (mw) =>
+        addMiddleware(_parent, ({ op, prev, next, action }) => {
+          const p = _select(prev);
+          const n = _select(next);
+          if (Object.is(p, n)) return next;
+          const out = mw({ op, prev: p, next: n, action });
+          return Object.is(out, n) ? next : _write(next, out);
+        }),
+      confirmed: () => _select(confirmedState(_parent)),
+      hold: () => holdNotifications(_parent),
+    });
+  }
+
+  /** Turn a focused updater into a parent updater. */
+  private _lift = (u: (p: S) => S) => (root: T) => {
+    const cur = this._select(root);
+    const next = u(cur);
+    return Object.is(next, cur) ? root : this._write(root, next);
+  };
+
+  getState = (): S => this._select(this._parent.getState());
+
+  setState = (u: S | ((p: S) => S), options?: SetStateOptions) => {
+    this._parent.setState(
+      this._lift(typeof u === "function" ? (u as (p: S) => S) : () => u),
+      options
+    );
+  };
+
+  replace = (next: S, options?: SetStateOptions) =>
+    this.setState(() => next, options);
+
+  reset = () => this.replace(this.getInitialState());
+
+  /** Fires only when the focused value changes. */
+  subscribe = (l: Listener<S>) => {
+    let last = this.getState();
+    return this._parent.subscribe(({ action, actions }) => {
+      const next = this.getState();
+      if (Object.is(next, last)) return;
+      const prev = last;
+      last = next;
+      l({ prev, next, action, actions });
+    });
+  };
+
+  getInitialState = (): S => this._select(this._parent.getInitialState());
+
+  getServerState = (): S => this._select(serverSnapshot(this._parent));
+}
+
+/**
+ * Focus a store on a sub-tree: returns a full `Store<S>` whose writes go back
+ * into the parent and whose subscribers fire only when the focused value changes.
+ *
+ * @typeParam T - Parent state.
+ * @typeParam S - Focused value.
+ * @param store - Parent store.
+ * @param selector - `(root) => value`; must return a stable reference for unchanged data.
+ * @param setter - `(root, value) => nextRoot`; should share unchanged branches.
+ * @returns A `Store<S>` usable with every store helper.
+ * @category Store
+ *
+ * @example
+ * const ui = focus(store, (s) => s.ui, (s, ui) => ({ ...s, ui }));
+ * ui.setState((p) => ({ ...p, modalOpen: true }));
+ */
+export function focus<T, S>(
+  store: Store<T>,
+  selector: (root: T) => S,
+  setter: (root: T, value: S) => T
+): Store<S> {
+  return new FocusedStore(store, selector, setter);
+}
+
+/**
+ * Focus a store on a dot-path such as `"ui.modalOpen"` or `"todos.0"`.
+ * The path is type-checked against `T`, so typos fail to compile. Writes copy
+ * only the objects along the path.
+ *
+ * @typeParam T - Parent state.
+ * @typeParam P - Dot-path into `T`.
+ * @param store - Parent store.
+ * @param path - Dot-path into the state.
+ * @returns A `Store` of the value at `path`.
+ * @category Store
+ *
+ * @example
+ * const modalOpen = focusPath(store, "ui.modalOpen");
+ * modalOpen.setState(true);
+ */
+export function focusPath<T, P extends Path<T>>(
+  store: Store<T>,
+  path: P
+): Store<PathValue<T, P>> {
+  const keys = toKeys(path);
+  return focus(
+    store,
+    (root) => getIn(root, keys),
+    (root, value) => setIn(root, keys, value)
+  );
+}
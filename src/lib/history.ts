@@ -0,0 +1,217 @@
+import {
+  type Store,
+  addMiddleware,
+  confirmedState,
+  delegateStore,
+  holdNotifications,
+  makeStore,
+  optimisticUpdate,
+} from "./store";
+import { useStoreSelector } from "./hooks";
+import { getIn, setIn, toKeys } from "./path";
+
+/**
+ * Undo/redo stack sizes, exposed as a store so hooks can subscribe to it.
+ */
+export type HistoryState = {
+  /** Number of undo steps available. */
+  past: number;
+  /** Number of redo steps available. */
+  future: number;
+};
+
+/**
+ * Options for {@link withHistory}.
+ * @typeParam T - State shape.
+ */
+export type HistoryOptions<T> = {
+  /** Maximum number of undo steps kept (default `100`). */
+  limit?: number;
+  /** Decide whether a change is recorded as an undo step (default: all). */
+  filter?: (next: T, prev: T) => boolean;
+  /**
+   * Dot-paths left out of history (e.g. `"ui.modalOpen"`): changes to them alone
+   * are not recorded, and undo/redo keep their current value.
+   */
+  exclude?: string[];
+};
+
+/**
+ * A store with undo/redo, returned by {@link withHistory}. Use it anywhere a
+ * `Store<T>` is accepted (`useStoreSelector`, `createStoreSlice`, ...).
+ * @typeParam T - State shape.
+ */
+export type HistoryStore<T> = Store<T> & {
+  /** Step back one change. No-op when there is nothing to undo. */
+  undo: () => void;
+  /** Re-apply the last undone change. No-op when there is nothing to redo. */
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  /** Forget all undo/redo steps. */
+  clear: () => void;
+  /** Stack sizes as a store (see {@link useHistory}). */
+  history: Store<HistoryState>;
+  /** Stop recording changes. */
+  destroy: () => void;
+};
+
+/** Excluded paths as a tree of keys; `true` marks an excluded leaf. */
+type ExcludeTree = { [key: string]: ExcludeTree | true };
+
+function buildExcludeTree(paths: string[]): ExcludeTree {
+  const tree: ExcludeTree = {};
+  for (const path of paths) {
+    const keys = toKeys(path);
+    let node = tree;
+    keys.forEach((k, i) => {
+      if (node[k] === true) return;
+      if (i === keys.length - 1) node[k] = true;
+      else node = (node[k] as ExcludeTree | undefined) ??= {};
+    });
+  }
+  return tree;
+}
+
+/** True when `a` and `b` only differ at excluded paths. */
+function sameExcept(a: any, b: any, tree: ExcludeTree): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const k of Array.from(keys)) {
+    const sub = tree[k];
+    if (sub === true) continue;
+    if (sub ? !sameExcept(a[k], b[k], sub) : !Object.is(a[k], b[k]))
+      return false;
+  }
+  return true;
+}
+
+/**
+ * Add undo/redo to a store.
+ *
+ * Every notified change becomes one undo step, so all updates inside a single
+ * `batch()` undo together.
+ *
+ * @typeParam T - State shape.
+ * @param store - The store to track.
+ * @param options - {@link HistoryOptions}.
+ * @returns A {@link HistoryStore} wrapping `store`.
+ * @category History
+ *
+ * @example
+ * const editor = withHistory(makeStore({ text: "", ui: { modalOpen: false } }), {
+ *   limit: 50,
+ *   exclude: ["ui.modalOpen"],
+ * });
+ * editor.setState((p) => ({ ...p, text: "hello" }));
+ * editor.undo(); // text: ""
+ */
+export function withHistory<T>(
+  store: Store<T>,
+  options: HistoryOptions<T> = {}
+): HistoryStore<T> {
+  const { limit = 100, filter, exclude = [] } = options;
+  const excludeTree = buildExcludeTree(exclude);
+  const excludeKeys = exclude.map(toKeys);
+
+  let past: T[] = [];
+  let future: T[] = [];
+  // Snapshots are confirmed states: `replace` replays pending optimistic layers.
+  let present = confirmedState(store);
+  const history = makeStore<HistoryState>({ past: 0, future: 0 });
+
+  const sync = () =>
+    history.replace({ past: past.length, future: future.length });
+
+  const unsubscribe = store.subscribe(() => {
+    const next = confirmedState(store);
+    if (Object.is(next, present)) return;
+    const prev = present;
+    present = next;
+    if (exclude.length && sameExcept(prev, next, excludeTree)) return;
+    if (filter && !filter(next, prev)) return;
+    past.push(prev);
+    if (past.length > limit) past.splice(0, past.length - limit);
+    future = [];
+    sync();
+  });
+
+  /** Move to `target`, keeping excluded paths at their current value. */
+  const travel = (target: T) => {
+    const current = confirmedState(store);
+    let next = target;
+    for (const keys of excludeKeys)
+      next = setIn(next, keys, getIn(current, keys));
+    present = next; // set first so our own subscription ignores this write
+    store.replace(next);
+    sync();
+  };
+
+  const result: HistoryStore<T> = {
+    getState: store.getState,
+    setState: store.setState,
+    replace: store.replace,
+    reset: store.reset,
+    subscribe: store.subscribe,
+    getInitialState: store.getInitialState,
+    getServerState: store.getServerState,
+    undo() {
+      if (!past.length) return;
+      future.push(confirmedState(store));
+      travel(past.pop() as T);
+    },
+    redo() {
+      if (!future.length) return;
+      past.push(confirmedState(store));
+      travel(future.pop() as T);
+    },
+    canUndo: () => past.length > 0,
+    canRedo: () => future.length > 0,
+    clear() {
+      past = [];
+      future = [];
+      sync();
+    },
+    history,
+    destroy: unsubscribe,
+  };
+  delegateStore(result, {
+    optimistic: (update) => optimisticUpdate(store, update),
+    use: (mw) => addMiddleware(store, mw),
+    confirmed: () => confirmedState(store),
+    hold: () => holdNotifications(store),
+  });
+  return result;
+}
+
+/**
+ * Read undo/redo availability for buttons and get the bound commands.
+ *
+ * @typeParam T - State shape.
+ * @param store - A store returned by {@link withHistory}.
+ * @returns `{ canUndo, canRedo, undo, redo, clear }`
+ * @category History
+ *
+ * @example
+ * function UndoButtons() {
+ *   const { canUndo, canRedo, undo, redo } = useHistory(editor);
+ *   return (
+ *     <>
+ *       <button disabled={!canUndo} onClick={undo}>Undo</button>
+ *       <button disabled={!canRedo} onClick={redo}>Redo</button>
+ *     </>
+ *   );
+ * }
+ */
+export function useHistory<T>(store: HistoryStore<T>) {
+  const canUndo = useStoreSelector(store.history, (h) => h.past > 0);
+  const canRedo = useStoreSelector(store.history, (h) => h.future > 0);
+  return {
+    canUndo,
+    canRedo,
+    undo: store.undo,
+    redo: store.redo,
+    clear: store.clear,
+  };
+}
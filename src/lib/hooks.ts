@@ -1,5 +1,15 @@
 import React from "react";
-import { type Store } from "./store";
+import {
+  type OptimisticHandle,
+  type ReadableStore,
+  type SetStateOptions,
+  type Store,
+  optimisticUpdate,
+  runAsAction,
+  serverSnapshot,
+} from "./store";
+import { produce } from "./draft";
+import { shallow } from "./equality";
 
 /**
  * Narrow store access passed to action factories.
@@ -14,8 +24,38 @@ export type StoreAccess<T> = {
   replace: Store<T>["replace"];
   /** Reset to the initial state captured at construction. */
   reset: Store<T>["reset"];
+  /** Update by mutating a draft; see {@link produce}. */
+  update: (recipe: (draft: T) => T | void) => void;
+  /** Apply a pending optimistic layer; see {@link optimisticUpdate}. */
+  optimistic: (updater: (p: T) => T) => OptimisticHandle<T>;
+  /** `set` inside `React.startTransition`; see {@link setInTransition}. */
+  setInTransition: Store<T>["setState"];
 };
 
+/**
+ * Build the {@link StoreAccess} handed to controller factories.
+ * @internal
+ */
+export function storeAccess<T>(store: Store<T>): StoreAccess<T> {
+  return {
+    get: store.getState,
+    set: store.setState,
+    replace: store.replace,
+    reset: store.reset,
+    update: (recipe) => store.setState((prev) => produce(prev, recipe)),
+    optimistic: (updater) => optimisticUpdate(store, updater),
+    setInTransition: (u, options) => setInTransition(store, u, options),
+  };
+}
+
+/**
+ * `useLayoutEffect` on the client, `useEffect` on the server (where the
+ * layout variant warns and nothing needs to run anyway).
+ * @internal
+ */
+export const useIsoLayoutEffect =
+  typeof window === "undefined" ? React.useEffect : React.useLayoutEffect;
+
 /* =============================================================================
    Store-param React helpers (no context required)
 ============================================================================= */
@@ -25,7 +65,7 @@ export type StoreAccess<T> = {
  *
  * @typeParam T - Root state shape.
  * @typeParam S - Selected slice shape.
- * @param store - The external store instance.
+ * @param store - The external store instance (any {@link ReadableStore}, e.g. from `derive`).
  * @param selector - Pure selector `(root) => slice`.
  * @param isEqual - Optional equality to suppress updates (default `Object.is`).
  * @returns The selected value `S`, updated only when `isEqual(prev, next)` is false.
@@ -35,7 +75,7 @@ export type StoreAccess<T> = {
  * const count = useStoreSelector(store, s => s.todos.length);
  */
 export function useStoreSelector<T, S>(
-  store: Store<T>,
+  store: ReadableStore<T>,
   selector: (root: T) => S,
   isEqual: (a: S, b: S) => boolean = Object.is
 ): S {
@@ -59,7 +99,7 @@ export function useStoreSelector<T, S>(
   }, [store]);
 
   const getServerSnap = React.useCallback(
-    () => selRef.current(store.getInitialState()),
+    () => selRef.current(serverSnapshot(store)),
     [store]
   );
 
@@ -72,6 +112,98 @@ export function useStoreSelector<T, S>(
   return value;
 }
 
+/**
+ * {@link useStoreSelector} with {@link shallow} equality, for selectors that
+ * return a new object or array built from stable parts.
+ *
+ * @typeParam T - Root state shape.
+ * @typeParam S - Selected slice shape.
+ * @param store - The external store instance.
+ * @param selector - Pure selector `(root) => slice`.
+ * @returns The selected value, kept stable while it is shallowly equal.
+ * @category Store
+ *
+ * @example
+ * const { title, done } = useShallowStoreSelector(store, (s) => ({
+ *   title: s.todo.title,
+ *   done: s.todo.done,
+ * }));
+ */
+export function useShallowStoreSelector<T, S>(
+  store: ReadableStore<T>,
+  selector: (root: T) => S
+): S {
+  return useStoreSelector(store, selector, shallow);
+}
+
+/**
+ * Write to a store inside `React.startTransition`.
+ *
+ * `useSyncExternalStore` always re-renders synchronously, so selectors still
+ * see the new state immediately; pair this with {@link useDeferredStoreSelector}
+ * for subtrees that may lag. What the transition does mark is everything the
+ * write triggers synchronously: React state set by store listeners (e.g.
+ * `subscribeWithSelector` callbacks) and any `setState` calls made in
+ * the same tick are rendered as transition updates.
+ *
+ * Inside `batch()` (or with a non-`"sync"` scheduler) the write joins the
+ * batch and listeners run when it flushes, outside the transition.
+ *
+ * @typeParam T - Root state shape.
+ * @param store - The store to write.
+ * @param u - Next state or updater.
+ * @param options - Per-write options (e.g. `label`).
+ * @category Store
+ *
+ * @example
+ * <input
+ *   value={query}
+ *   onChange={(e) => {
+ *     setQuery(e.target.value); // urgent
+ *     setInTransition(store, (p) => ({ ...p, filter: e.target.value }));
+ *   }}
+ * />
+ */
+export function setInTransition<T>(
+  store: Store<T>,
+  u: T | ((p: T) => T),
+  options?: SetStateOptions
+): void {
+  React.startTransition(() => store.setState(u, options));
+}
+
+/**
+ * {@link useStoreSelector} through `React.useDeferredValue`: after a store
+ * update the component first re-renders with the previous value, then renders
+ * the new one in the background, so heavy subtrees do not block typing.
+ *
+ * The deferred value is always a selection React already rendered, so it never
+ * tears against other components reading the same store.
+ *
+ * @typeParam T - Root state shape.
+ * @typeParam S - Selected slice shape.
+ * @param store - The external store instance.
+ * @param selector - Pure selector `(root) => slice`.
+ * @param isEqual - Optional equality to suppress updates (default `Object.is`).
+ * @returns `[value, isPending]`; `isPending` is true while `value` lags behind the store.
+ * @category Store
+ *
+ * @example
+ * function Results() {
+ *   const [items, isPending] = useDeferredStoreSelector(store, selectFiltered);
+ *   return <List items={items} style={{ opacity: isPending ? 0.6 : 1 }} />;
+ * }
+ */
+export function useDeferredStoreSelector<T, S>(
+  store: ReadableStore<T>,
+  selector: (root: T) => S,
+  isEqual?: (a: S, b: S) => boolean
+): [value: S, isPending: boolean] {
+  const value = useStoreSelector(store, selector, isEqual);
+  const deferred = React.useDeferredValue(value);
+  return [deferred, !Object.is(deferred, value)];
+}
+
 /**
  * Build **controller** actions for a store (side-effects/async allowed).
  * @typeParam T - Root state.
@@ -94,15 +226,7 @@ export function useStoreActions<T, A>(
   factory: (api: StoreAccess<T>) => A,
   deps: any[] = []
 ): A {
-  const api = React.useMemo<StoreAccess<T>>(
-    () => ({
-      get: store.getState,
-      set: store.setState,
-      replace: store.replace,
-      reset: store.reset,
-    }),
-    [store]
-  );
+  const api = React.useMemo(() => storeAccess(store), [store]);
   const built = factory(api); // allow hooks inside factory
   return React.useMemo(() => built, deps);
 }
@@ -139,23 +263,48 @@ export function bindStoreActions<T, A>(
  */
 export type RootFns<T> = Record<string, (root: T, ...a: any[]) => T>;
 
-/** Slice-bound action signatures derived from {@link RootFns}. */
-type Bound<FNS extends RootFns<any>> = {
+/** Map of **draft** updaters `(draft, ...args) => void` that mutate a draft root.
+ *  @typeParam T - Root state.
+ *  @category Slices
+ */
+export type DraftFns<T> = Record<string, (draft: T, ...a: any[]) => T | void>;
+
+/** Options for `createStoreSlice` / `createSlice`.
+ *  @category Slices
+ */
+export type SliceOptions = {
+  /** Updaters mutate a draft instead of returning the next root (see {@link produce}). */
+  draft?: boolean;
+};
+
+/** Slice-bound action signatures derived from {@link RootFns} or {@link DraftFns}. */
+type Bound<FNS extends DraftFns<any>> = {
   [K in keyof FNS]: (
     ...args: Parameters<FNS[K]> extends [any, ...infer P] ? P : never
   ) => void;
 };
 
+/** The hook returned by `createStoreSlice`. */
+export type SliceHook<S, FNS extends DraftFns<any>> = () => {
+  state: S;
+  get: () => S;
+  actions: Bound<FNS>;
+};
+
 /**
  * Create a slice hook bound to a store; actions are **pure** (no side effects)
  * and must return the **next root state**.
  *
+ * With `{ draft: true }`, actions instead **mutate a draft** of the root and the
+ * next root is produced with structural sharing (unchanged branches keep their identity).
+ *
  * @typeParam T - Root state.
  * @typeParam S - Selected slice.
- * @typeParam FNS - Pure updater map `(root, ...args) => nextRoot`.
+ * @typeParam FNS - Pure updater map `(root, ...args) => nextRoot` (or draft updaters).
  * @param store - The external store.
  * @param select - `(root) => slice` used for `state` and `get()`.
  * @param fns - Pure updaters; each must return a new root (`T`).
+ * @param options - {@link SliceOptions}.
  * @returns `useSlice(): { state, get, actions }` where `actions[key](...args): void`
  * @example
  * const useTodos = createStoreSlice(store, s => s.todos, {
@@ -163,14 +312,34 @@ type Bound<FNS extends RootFns<any>> = {
  *     return { ...root, todos: [...root.todos, { id: crypto.randomUUID(), text }] };
  *   }
  * });
+ * @example
+ * const useModal = createStoreSlice(store, s => s.ui.modalOpen, {
+ *   set(draft, v: boolean) {
+ *     draft.ui.modalOpen = v;
+ *   }
+ * }, { draft: true });
  * @category Slices
  */
 export function createStoreSlice<T, S, FNS extends RootFns<T>>(
   store: Store<T>,
   select: (root: T) => S,
-  fns: FNS
-) {
-  return function useSlice(): { state: S; get: () => S; actions: Bound<FNS> } {
+  fns: FNS,
+  options?: SliceOptions & { draft?: false }
+): SliceHook<S, FNS>;
+export function createStoreSlice<T, S, FNS extends DraftFns<T>>(
+  store: Store<T>,
+  select: (root: T) => S,
+  fns: FNS,
+  options: SliceOptions & { draft: true }
+): SliceHook<S, FNS>;
+export function createStoreSlice<T, S, FNS extends DraftFns<T>>(
+  store: Store<T>,
+  select: (root: T) => S,
+  fns: FNS,
+  options: SliceOptions = {}
+): SliceHook<S, FNS> {
+  const draft = !!options.draft;
+  return function useSlice() {
     const state = useStoreSelector(store, select);
     const get = React.useCallback(
       () => select(store.getState()),
@@ -179,9 +348,15 @@ export function createStoreSlice<T, S, FNS extends RootFns<T>>(
     const actions = React.useMemo(() => {
       const out: any = {};
       for (const key in fns) {
-        const pure = fns[key];
+        const fn = fns[key];
         out[key] = (...args: any[]) =>
-          store.setState((prev) => pure(prev, ...args));
+          runAsAction({ type: key, args }, () =>
+            store.setState((prev) =>
+              draft
+                ? produce(prev, (d) => fn(d, ...args))
+                : (fn(prev, ...args) as T)
+            )
+          );
       }
       return out as Bound<FNS>;
     }, [store]);
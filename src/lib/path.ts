@@ -0,0 +1,95 @@
+/* =============================================================================
+   Dot-path helpers ("ui.modalOpen", "todos.0.text") with structural sharing
+============================================================================= */
+
+/** Split a dot-path into keys. @internal */
+export function toKeys(path: string): string[] {
+  return path === "" ? [] : path.split(".");
+}
+
+/**
+ * Read the value at `keys`, or `undefined` when a parent is missing.
+ * @internal
+ */
+export function getIn(root: unknown, keys: readonly string[]): any {
+  let cur: any = root;
+  for (const k of keys) {
+    if (cur == null) return undefined;
+    cur = cur[k];
+  }
+  return cur;
+}
+
+/**
+ * Return a copy of `root` with `value` at `keys`, cloning only the objects
+ * along the path. Returns `root` itself when the value is already there.
+ * @internal
+ */
+export function setIn<R>(root: R, keys: readonly string[], value: unknown): R {
+  if (keys.length === 0) return value as R;
+  const [head, ...rest] = keys;
+  const cur: any = typeof root === "object" && root !== null ? root : {};
+  const child = cur[head];
+  const nextChild = setIn(child, rest, value);
+  if (cur === root && Object.is(child, nextChild) && head in cur) return root;
+  if (Array.isArray(cur)) {
+    const copy = cur.slice();
+    copy[Number(head)] = nextChild;
+    return copy as R;
+  }
+  return { ...cur, [head]: nextChild };
+}
+
+/* =============================================================================
+   Typed dot-paths
+============================================================================= */
+
+type Leaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | ((...args: any[]) => any);
+
+/** Recursion budget so very deep or recursive types stay cheap to check. */
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+/**
+ * Every dot-path into `T`, e.g. `"ui" | "ui.modalOpen" | "todos.0.text"`.
+ * Array indices are written as numbers. Paths go at most 8 levels deep.
+ * @typeParam T - Root shape.
+ * @category Store
+ */
+export type Path<T, D extends number = 8> = [D] extends [never]
+  ? never
+  : T extends Leaf
+    ? never
+    : T extends readonly (infer U)[]
+      ? `${number}` | `${number}.${Path<NonNullable<U>, Depth[D]>}`
+      : {
+          [K in keyof T & string]:
+            K | `${K}.${Path<NonNullable<T[K]>, Depth[D]>}`;
+        }[keyof T & string];
+
+type At<T, K extends string> = T extends readonly (infer U)[]
+  ? K extends `${number}`
+    ? U
+    : never
+  : K extends keyof T
+    ? T[K]
+    : never;
+
+/**
+ * The value type found at dot-path `P` in `T`.
+ * @typeParam T - Root shape.
+ * @typeParam P - A {@link Path} of `T`.
+ * @category Store
+ */
+export type PathValue<T, P extends string> = P extends `${infer K}.${infer R}`
+  ? PathValue<NonNullable<At<T, K>>, R>
+  : At<T, P>;
@@ -0,0 +1,260 @@
+import { type Store, makeStore } from "./store";
+
+/**
+ * Key/value storage used by {@link persist}. `localStorage` and `sessionStorage`
+ * satisfy it as-is; async (IndexedDB-style) backends may return promises.
+ * @category Persistence
+ */
+export type PersistStorage = {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem?: (key: string) => void | Promise<void>;
+};
+
+/**
+ * What {@link persist} writes to storage: the partialized state plus its version.
+ * @typeParam P - Persisted shape.
+ */
+export type PersistedValue<P> = { state: P; version: number };
+
+/** Hydration lifecycle exposed by {@link PersistHandle.hydration}. */
+export type HydrationStatus = "hydrating" | "hydrated" | "error";
+
+/**
+ * Hydration state; read it with `useStoreSelector(handle.hydration, h => h.status)`.
+ */
+export type HydrationState = {
+  status: HydrationStatus;
+  /**
+   * Rehydration or migration error (with `"error"`), or the last failed write
+   * (with `"hydrated"`; writes keep being attempted and a successful one clears it).
+   */
+  error?: unknown;
+};
+
+/**
+ * Options for {@link persist}.
+ * @typeParam T - Store state.
+ * @typeParam P - Persisted shape (defaults to the whole state).
+ */
+export type PersistOptions<T, P = T> = {
+  /** Storage key. */
+  key: string;
+  /** Storage backend (default `localStorage` when available). */
+  storage?: PersistStorage;
+  /** Version of the persisted shape (default `0`). */
+  version?: number;
+  /**
+   * Upgrade data written under another version. Without it, mismatched data is
+   * left untouched in storage and hydration ends in `"error"`.
+   */
+  migrate?: (persisted: unknown, fromVersion: number) => P | Promise<P>;
+  /** Pick the part of the state to persist (default: the whole state). */
+  partialize?: (state: T) => P;
+  /** Combine persisted data with the current state (default: shallow merge). */
+  merge?: (persisted: P, current: T) => T;
+  /** Encode the stored value (default `JSON.stringify`). */
+  serialize?: (value: PersistedValue<P>) => string;
+  /** Decode the stored value (default `JSON.parse`). */
+  deserialize?: (raw: string) => PersistedValue<P>;
+  /** Minimum delay between writes in ms (default `100`). */
+  throttleMs?: number;
+};
+
+/**
+ * Returned by {@link persist}.
+ */
+export type PersistHandle = {
+  /** Hydration status as a store, usable with `useStoreSelector`. */
+  hydration: Store<HydrationState>;
+  /** Read storage again and apply it to the store. */
+  rehydrate: () => Promise<void>;
+  /** Write the current state now instead of waiting for the throttle. */
+  flush: () => Promise<void>;
+  /** Stop writing to storage. */
+  destroy: () => void;
+};
+
+/**
+ * Create an in-memory {@link PersistStorage} (handy for tests and SSR).
+ * @category Persistence
+ */
+export function createMemoryStorage(
+  seed: Record<string, string> = {}
+): PersistStorage {
+  const data = new Map(Object.entries(seed));
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: (key) => {
+      data.delete(key);
+    },
+  };
+}
+
+function isPromise<V>(v: V | Promise<V>): v is Promise<V> {
+  return !!v && typeof (v as any).then === "function";
+}
+
+/** Call `fn` with a value that may or may not be a promise. */
+function then<V, R>(
+  v: V | Promise<V>,
+  fn: (v: V) => R | Promise<R>
+): R | Promise<R> {
+  return isPromise(v) ? v.then(fn) : fn(v);
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function defaultMerge<T, P>(persisted: P, current: T): T {
+  if (isPlainObject(current) && isPlainObject(persisted))
+    return { ...current, ...persisted } as T;
+  return persisted as unknown as T;
+}
+
+function defaultStorage(): PersistStorage | undefined {
+  try {
+    return typeof localStorage === "undefined" ? undefined : localStorage;
+  } catch {
+    return undefined; // access can throw when storage is disabled
+  }
+}
+
+/**
+ * Persist a store to storage: rehydrate on startup and write throttled
+ * snapshots on change.
+ *
+ * - Synchronous storages hydrate before `persist` returns, so the first render
+ *   already sees stored data; async ones report `"hydrating"` until done.
+ * - Nothing is written until hydration succeeds, so stored data is never
+ *   overwritten with defaults.
+ * - On a version mismatch `migrate` runs; if it is missing or throws, the stored
+ *   data is kept as-is and `hydration` ends in `"error"`.
+ *
+ * @typeParam T - Store state.
+ * @typeParam P - Persisted shape.
+ * @param store - The store to persist.
+ * @param options - {@link PersistOptions}.
+ * @returns A {@link PersistHandle}.
+ * @category Persistence
+ *
+ * @example
+ * const store = makeStore({ theme: "light", draft: "" });
+ * const persisted = persist(store, {
+ *   key: "settings",
+ *   version: 2,
+ *   partialize: (s) => ({ theme: s.theme }),
+ *   migrate: (old: any, from) => (from < 2 ? { theme: old.mode } : old),
+ * });
+ *
+ * function Settings() {
+ *   const ready = useStoreSelector(persisted.hydration, (h) => h.status === "hydrated");
+ *   return ready ? <ThemePicker /> : null;
+ * }
+ */
+export function persist<T, P = T>(
+  store: Store<T>,
+  options: PersistOptions<T, P>
+): PersistHandle {
+  const {
+    key,
+    storage = defaultStorage(),
+    version = 0,
+    migrate,
+    partialize = (s: T) => s as unknown as P,
+    merge = defaultMerge<T, P>,
+    serialize = JSON.stringify,
+    deserialize = JSON.parse,
+    throttleMs = 100,
+  } = options;
+
+  const hydration = makeStore<HydrationState>({ status: "hydrating" });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let destroyed = false;
+
+  const fail = (error: unknown) =>
+    hydration.replace({ status: "error", error });
+
+  // A failed write (e.g. quota exceeded) must not stop later writes.
+  const writeFailed = (error: unknown) =>
+    hydration.replace({ status: "hydrated", error });
+  const written = () => {
+    if (hydration.getState().error !== undefined)
+      hydration.replace({ status: "hydrated" });
+  };
+
+  const write = (): void | Promise<void> => {
+    if (timer !== undefined) clearTimeout(timer);
+    timer = undefined;
+    if (!storage || destroyed || hydration.getState().status !== "hydrated")
+      return;
+    try {
+      const raw = serialize({ state: partialize(store.getState()), version });
+      const res = storage.setItem(key, raw);
+      if (isPromise(res)) return res.then(written, writeFailed);
+      written();
+    } catch (e) {
+      writeFailed(e);
+    }
+  };
+
+  const schedule = () => {
+    if (timer === undefined) timer = setTimeout(write, throttleMs);
+  };
+
+  const apply = (raw: string | null): void | Promise<void> => {
+    if (raw == null) {
+      hydration.replace({ status: "hydrated" });
+      return;
+    }
+    const stored = deserialize(raw);
+    const upgrade =
+      stored.version === version
+        ? stored.state
+        : migrate
+          ? migrate(stored.state, stored.version)
+          : Promise.reject(
+              new Error(
+                `react-tiny-store: persisted "${key}" has version ${stored.version}, expected ${version}, and no migrate was provided`
+              )
+            );
+    return then(upgrade, (state) => {
+      store.replace(merge(state, store.getState()));
+      hydration.replace({ status: "hydrated" });
+      if (stored.version !== version) return write();
+    });
+  };
+
+  const rehydrate = (): Promise<void> => {
+    if (!storage) {
+      hydration.replace({ status: "hydrated" });
+      return Promise.resolve();
+    }
+    hydration.replace({ status: "hydrating" });
+    try {
+      const res = then(storage.getItem(key), apply);
+      return isPromise(res) ? res.catch(fail) : Promise.resolve();
+    } catch (e) {
+      fail(e);
+      return Promise.resolve();
+    }
+  };
+
+  const unsubscribe = store.subscribe(schedule);
+  void rehydrate();
+
+  return {
+    hydration,
+    rehydrate,
+    flush: () => Promise.resolve(write()),
+    destroy() {
+      destroyed = true;
+      if (timer !== undefined) clearTimeout(timer);
+      unsubscribe();
+    },
+  };
+}
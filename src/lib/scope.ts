@@ -0,0 +1,235 @@
+import {
+  type Middleware,
+  type ReadableStore,
+  type SetStateOptions,
+  type Store,
+  type StoreWrite,
+  addMiddleware,
+  batch,
+  confirmedState,
+  delegateStore,
+  holdNotifications,
+  makeStore,
+  optimisticUpdate,
+} from "./store";
+import { derive } from "./derive";
+
+/**
+ * Options for {@link fork} and {@link overlay}.
+ */
+export type ScopeOptions = {
+  /** Also write the scope's changes to the parent store (default `false`). */
+  writeBack?: boolean;
+};
+
+/**
+ * Start an independent store from the parent's current value.
+ *
+ * Later parent changes are not pulled in. With `writeBack`, the fields each
+ * change touches are also written onto the parent's current state (labelled
+ * with the fork's action), so sibling forks do not overwrite each other.
+ *
+ * @typeParam T - State shape.
+ * @param parent - Store to fork from.
+ * @param patch - Fields to override at fork time.
+ * @param options - {@link ScopeOptions}.
+ * @returns A new `Store<T>`; `reset()` returns to the fork-time value.
+ * @category Store
+ *
+ * @example
+ * const draft = fork(formStore);            // edit, then discard
+ * const row = fork(rowStore, { editing: true }, { writeBack: true });
+ */
+export function fork<T>(
+  parent: Store<T>,
+  patch?: Partial<T>,
+  options: ScopeOptions = {}
+): Store<T> {
+  const current = parent.getState();
+  const start = patch ? ({ ...current, ...patch } as T) : current;
+  return makeStore(start, {
+    middleware: options.writeBack
+      ? [
+          ({ prev, next, action }) => {
+            const options = action && { label: action.type };
+            // Only the fork's changed fields, so sibling forks keep theirs.
+            if (
+              typeof next === "object" &&
+              next !== null &&
+              !Array.isArray(next)
+            ) {
+              const changed = changedFields(prev, next);
+              parent.setState((p) => ({ ...p, ...changed }), options);
+            } else parent.replace(next, options);
+            return next;
+          },
+        ]
+      : [],
+  });
+}
+
+class OverlayStore<T> implements Store<T> {
+  private readonly _local: Store<Partial<T>>;
+  private readonly _view: ReadableStore<T>;
+
+  constructor(
+    private readonly _parent: Store<T>,
+    fields: Partial<T>,
+    private readonly _writeBack: boolean
+  ) {
+    this._local = makeStore(fields);
+    this._view = derive(
+      [_parent, this._local],
+      (p, l) => ({ ...p, ...l }) as T
+    );
+    delegateStore<T>(this, {
+      optimistic: (update) => {
+        const layer = optimisticUpdate(this._local, (l) => {
+          const view = { ...this._parent.getState(), ...l } as T;
+          const changed = changedFields(view, update(view));
+          return Object.keys(changed).length ? { ...l, ...changed } : l;
+        });
+        return {
+          commit: (final) =>
+            batch(() => {
+              layer.rollback();
+              this.setState(final ?? update);
+            }),
+          rollback: layer.rollback,
+        };
+      },
+      use: (mw) => {
+        const detachParent = addMiddleware(this._parent, (write) => {
+          const l = this._local.getState();
+          const view = { ...write.next, ...l };
+          const out = lifted(mw, write, { ...write.prev, ...l }, view);
+          if (out === write.next || out === write.prev) return out;
+          const upstream = changedFields(view, out);
+          for (const key of Object.keys(l)) delete upstream[key as keyof T];
+          return { ...write.next, ...upstream };
+        });
+        const detachLocal = addMiddleware(this._local, (write) => {
+          const p = this._parent.getState();
+          const view = { ...p, ...write.next } as T;
+          const out = lifted(mw, write, { ...p, ...write.prev } as T, view);
+          if (out === write.next || out === write.prev) return out;
+          return { ...write.next, ...changedFields(view, out) };
+        });
+        return () => {
+          detachParent();
+          detachLocal();
+        };
+      },
+      confirmed: () => {
+        const p = confirmedState(this._parent);
+        const l = confirmedState(this._local);
+        if (this._confirmed?.p !== p || this._confirmed.l !== l)
+          this._confirmed = { p, l, state: { ...p, ...l } };
+        return this._confirmed.state;
+      },
+      hold: () => {
+        const releaseParent = holdNotifications(this._parent);
+        const releaseLocal = holdNotifications(this._local);
+        return () => {
+          releaseLocal();
+          releaseParent();
+        };
+      },
+    });
+  }
+
+  private _confirmed?: { p: T; l: Partial<T>; state: T };
+
+  getState = (): T => this._view.getState();
+
+  /**
+   * Changed fields stay local; with `writeBack`, fields not overlaid go to
+   * the parent instead.
+   */
+  setState = (u: T | ((p: T) => T), options?: SetStateOptions) => {
+    const cur = this.getState();
+    const next = typeof u === "function" ? (u as (p: T) => T)(cur) : u;
+    if (Object.is(next, cur)) return;
+
+    const local: Partial<T> = {};
+    const upstream: Partial<T> = {};
+    const overlaid = this._local.getState();
+    for (const key of Object.keys(next as object) as (keyof T)[]) {
+      if (Object.is(next[key], cur[key])) continue;
+      const toLocal =
+        !this._writeBack || Object.prototype.hasOwnProperty.call(overlaid, key);
+      (toLocal ? local : upstream)[key] = next[key];
+    }
+
+    batch(() => {
+      if (Object.keys(upstream).length)
+        this._parent.setState((p) => ({ ...p, ...upstream }), options);
+      if (Object.keys(local).length)
+        this._local.setState((l) => ({ ...l, ...local }), options);
+    });
+  };
+
+  replace = (next: T, options?: SetStateOptions) =>
+    this.setState(() => next, options);
+
+  /** Drop local changes, back to the initial overlay fields. */
+  reset = () => this._local.reset();
+
+  subscribe: Store<T>["subscribe"] = (l) => this._view.subscribe(l);
+
+  getInitialState = (): T => this._view.getInitialState();
+
+  getServerState = (): T => this._view.getServerState!();
+}
+
+/** Fields of `next` whose value differs from `prev`. */
+function changedFields<T>(prev: T, next: T): Partial<T> {
+  const out: Partial<T> = {};
+  if (Object.is(prev, next)) return out;
+  for (const key of Object.keys(next as object) as (keyof T)[])
+    if (!Object.is(next[key], prev[key])) out[key] = next[key];
+  return out;
+}
+
+/**
+ * Run an overlay middleware on the overlay's view of a write to one of its
+ * sources. Returns `write.next` to pass it through, `write.prev` to veto it,
+ * or the middleware's changed view.
+ */
+function lifted<T, S>(
+  mw: Middleware<T>,
+  write: StoreWrite<S>,
+  prev: T,
+  next: T
+): S | T {
+  if (!Object.keys(changedFields(prev, next)).length) return write.next;
+  const out = mw({ op: write.op, prev, next, action: write.action });
+  if (Object.is(out, next)) return write.next;
+  if (Object.is(out, prev)) return write.prev;
+  return out;
+}
+
+/**
+ * Layer a few fields over a parent store.
+ *
+ * Reads see the parent's live state with `fields` on top. Writes to overlaid
+ * fields stay in the overlay; writes to other fields also stay local unless
+ * `writeBack` is set, in which case they go to the parent.
+ *
+ * @typeParam T - State shape (an object type).
+ * @param parent - Store to overlay.
+ * @param fields - Fields owned by the overlay.
+ * @param options - {@link ScopeOptions}.
+ * @returns A `Store<T>`; `reset()` drops local changes.
+ * @category Store
+ *
+ * @example
+ * const preview = overlay(themeStore, { mode: "dark" });
+ */
+export function overlay<T>(
+  parent: Store<T>,
+  fields: Partial<T>,
+  options: ScopeOptions = {}
+): Store<T> {
+  return new OverlayStore(parent, fields, options.writeBack ?? false);
+}
@@ -0,0 +1,122 @@
+/** Any `(state, ...params) => value` selector. */
+type AnySelector = (state: any, ...params: any[]) => any;
+
+/** Map a tuple of selectors to the tuple of their results. */
+type ResultsOf<I extends readonly AnySelector[]> = {
+  [K in keyof I]: ReturnType<I[K]>;
+};
+
+/** Arguments of the first input selector: `[state, ...params]`. */
+type ArgsOf<I extends readonly AnySelector[]> = I extends readonly [
+  infer F extends AnySelector,
+  ...any[],
+]
+  ? Parameters<F>
+  : [state: unknown];
+
+/**
+ * Options for {@link createSelector}.
+ */
+export type SelectorOptions = {
+  /** Number of distinct argument/input combinations to remember (default `1`). */
+  cacheSize?: number;
+};
+
+/**
+ * A memoized selector returned by {@link createSelector}.
+ * @typeParam A - Selector arguments (`[state, ...params]`).
+ * @typeParam R - Result.
+ */
+export type MemoizedSelector<A extends unknown[], R> = ((...args: A) => R) & {
+  /** How many times the combiner has run. */
+  recomputations: () => number;
+  /** Set the recompute counter back to 0. */
+  resetRecomputations: () => void;
+  /** Forget all cached results. */
+  clearCache: () => void;
+};
+
+type Entry = { args: unknown[]; inputs: unknown[]; result: unknown };
+
+const sameList = (a: readonly unknown[], b: readonly unknown[]) =>
+  a.length === b.length && a.every((v, i) => Object.is(v, b[i]));
+
+/**
+ * Build a memoized selector from input selectors and a combiner.
+ *
+ * Input selectors receive `(state, ...params)`. The combiner only runs when the
+ * input results differ from a cached entry, so unrelated updates (and the
+ * repeated calls `useStoreSelector` makes on every notification) cost one pass
+ * over the inputs. Results are cached per argument list, up to `cacheSize`
+ * entries (least recently used are dropped first).
+ *
+ * The result is a plain function: pass it straight to `useStoreSelector` or the
+ * context `useSelector`, or call it with params inside an inline selector.
+ *
+ * @typeParam I - Tuple of input selectors.
+ * @typeParam R - Combiner result.
+ * @param inputs - Input selectors `(state, ...params) => value`.
+ * @param combiner - Pure `(...inputResults) => result`.
+ * @param options - {@link SelectorOptions}.
+ * @returns A {@link MemoizedSelector}.
+ * @category Selectors
+ *
+ * @example
+ * const selectVisible = createSelector(
+ *   [(s: AppState) => s.todos, (s: AppState) => s.filter],
+ *   (todos, filter) => todos.filter((t) => filter === "all" || t.done === (filter === "done"))
+ * );
+ * const visible = useStoreSelector(store, selectVisible);
+ *
+ * @example
+ * const selectTodo = createSelector(
+ *   [(s: AppState, id: string) => s.todos, (_s: AppState, id: string) => id],
+ *   (todos, id) => todos.find((t) => t.id === id),
+ *   { cacheSize: 50 }
+ * );
+ * const todo = useStoreSelector(store, (s) => selectTodo(s, id));
+ */
+export function createSelector<const I extends readonly AnySelector[], R>(
+  inputs: I,
+  combiner: (...results: ResultsOf<I>) => R,
+  options: SelectorOptions = {}
+): MemoizedSelector<ArgsOf<I>, R> {
+  const cacheSize = Math.max(1, options.cacheSize ?? 1);
+  let cache: Entry[] = [];
+  let recomputations = 0;
+
+  const touch = (i: number) => {
+    const [entry] = cache.splice(i, 1);
+    cache.unshift(entry);
+    return entry;
+  };
+
+  const selector = (...args: unknown[]) => {
+    const byArgs = cache.findIndex((e) => sameList(e.args, args));
+    if (byArgs !== -1) return touch(byArgs).result;
+
+    const results = inputs.map((input) => input(...(args as [any])));
+    const byInputs = cache.findIndex((e) => sameList(e.inputs, results));
+    if (byInputs !== -1) {
+      const entry = touch(byInputs);
+      entry.args = args;
+      return entry.result;
+    }
+
+    recomputations++;
+    const result = combiner(...(results as ResultsOf<I>));
+    cache.unshift({ args, inputs: results, result });
+    if (cache.length > cacheSize) cache.length = cacheSize;
+    return result;
+  };
+
+  return Object.assign(selector as (...args: ArgsOf<I>) => R, {
+    recomputations: () => recomputations,
+    resetRecomputations: () => {
+      recomputations = 0;
+    },
+    clearCache: () => {
+      cache = [];
+    },
+  });
+}
@@ -0,0 +1,138 @@
+/**
+ * Tagged wrapper for values plain JSON cannot represent.
+ * Plain objects that own a `$t` key are wrapped too, so they round-trip.
+ */
+type Tagged =
+  | { $t: "undefined" }
+  | { $t: "Number"; v: "NaN" | "Infinity" | "-Infinity" | "-0" }
+  | { $t: "BigInt"; v: string }
+  | { $t: "Date"; v: number | null }
+  | { $t: "Map"; v: [unknown, unknown][] }
+  | { $t: "Set"; v: unknown[] }
+  | { $t: "Object"; v: Record<string, unknown> };
+
+const hasOwn = (o: object, k: string) =>
+  Object.prototype.hasOwnProperty.call(o, k);
+
+function encode(value: unknown, stack: Set<object>): unknown {
+  switch (typeof value) {
+    case "undefined":
+      return { $t: "undefined" } satisfies Tagged;
+    case "bigint":
+      return { $t: "BigInt", v: value.toString() } satisfies Tagged;
+    case "number":
+      if (Number.isFinite(value) && !Object.is(value, -0)) return value;
+      return {
+        $t: "Number",
+        v: Object.is(value, -0) ? "-0" : (String(value) as "NaN"),
+      } satisfies Tagged;
+    case "function":
+    case "symbol":
+      throw new TypeError(
+        `react-tiny-store: cannot serialize a ${typeof value}`
+      );
+    case "object":
+      break;
+    default:
+      return value;
+  }
+  if (value === null) return null;
+  if (stack.has(value))
+    throw new TypeError(
+      "react-tiny-store: cannot serialize a circular structure"
+    );
+  stack.add(value);
+  try {
+    if (value instanceof Date)
+      return { $t: "Date", v: value.getTime() } satisfies Tagged;
+    if (Array.isArray(value))
+      return Array.from(value, (item) => encode(item, stack));
+    if (value instanceof Map)
+      return {
+        $t: "Map",
+        v: Array.from(value, ([k, v]) => [encode(k, stack), encode(v, stack)]),
+      } satisfies Tagged;
+    if (value instanceof Set)
+      return {
+        $t: "Set",
+        v: Array.from(value, (item) => encode(item, stack)),
+      } satisfies Tagged;
+
+    const out: Record<string, unknown> = {};
+    for (const k of Object.keys(value))
+      out[k] = encode((value as Record<string, unknown>)[k], stack);
+    return hasOwn(value, "$t")
+      ? ({ $t: "Object", v: out } satisfies Tagged)
+      : out;
+  } finally {
+    stack.delete(value);
+  }
+}
+
+function decode(value: unknown): unknown {
+  if (typeof value !== "object" || value === null) return value;
+  if (Array.isArray(value)) return value.map(decode);
+
+  const obj = value as Record<string, unknown>;
+  if (hasOwn(obj, "$t")) {
+    const tagged = obj as Tagged;
+    switch (tagged.$t) {
+      case "undefined":
+        return undefined;
+      case "Number":
+        return tagged.v === "-0" ? -0 : Number(tagged.v);
+      case "BigInt":
+        return BigInt(tagged.v);
+      case "Date":
+        return new Date(tagged.v ?? NaN);
+      case "Map":
+        return new Map(tagged.v.map(([k, v]) => [decode(k), decode(v)]));
+      case "Set":
+        return new Set(tagged.v.map(decode));
+      case "Object":
+        return decodeObject(tagged.v);
+    }
+  }
+  return decodeObject(obj);
+}
+
+function decodeObject(obj: Record<string, unknown>) {
+  const out: Record<string, unknown> = {};
+  for (const k of Object.keys(obj)) out[k] = decode(obj[k]);
+  return out;
+}
+
+const UNSAFE = /[<>&\u2028\u2029]/g;
+
+/**
+ * Serialize a value to a JSON string that preserves `Date`, `Map`, `Set`,
+ * `BigInt`, `undefined`, `NaN`, `±Infinity` and `-0`.
+ *
+ * The output escapes `<`, `>`, `&`, U+2028 and U+2029, so it can be embedded in
+ * a `<script>` tag without `</script>` injection.
+ *
+ * @param value - Value to serialize (functions, symbols and cycles throw).
+ * @returns The serialized string; read it back with {@link deserialize}.
+ * @category SSR
+ *
+ * @example
+ * const text = serialize({ at: new Date(), tags: new Set(["a"]) });
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(encode(value, new Set())).replace(
+    UNSAFE,
+    (c) => `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}`
+  );
+}
+
+/**
+ * Parse a string produced by {@link serialize}.
+ *
+ * @typeParam T - Expected value type (not validated).
+ * @param text - Serialized string.
+ * @returns The revived value.
+ * @category SSR
+ */
+export function deserialize<T = unknown>(text: string): T {
+  return decode(JSON.parse(text)) as T;
+}
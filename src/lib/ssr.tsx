@@ -0,0 +1,118 @@
+import * as React from "react";
+import { type ReadableStore, type Store, batch, pinServerState } from "./store";
+import { deserialize, serialize } from "./serialize";
+
+/** Default `id` of the `<script>` rendered by {@link HydrationScript}. */
+export const HYDRATION_SCRIPT_ID = "__TINY_STORE_STATE__";
+
+/**
+ * Capture the current state of keyed stores for transfer to the client.
+ *
+ * Also pins each store's server snapshot to the captured state, so server
+ * hooks render exactly what the client will hydrate. Call it after server-side
+ * updates and before rendering.
+ *
+ * @param stores - Stores keyed by a name shared with {@link hydrate}.
+ * @returns A serialized payload, safe to embed in a `<script>` tag.
+ * @category SSR
+ *
+ * @example
+ * await loadTodos(store);
+ * const payload = dehydrate({ app: store });
+ * const html = renderToString(<App />);
+ */
+export function dehydrate(stores: Record<string, ReadableStore<any>>): string {
+  const snapshot: Record<string, unknown> = {};
+  for (const key of Object.keys(stores)) {
+    const state = stores[key].getState();
+    pinServerState(stores[key], state, false);
+    snapshot[key] = state;
+  }
+  return serialize(snapshot);
+}
+
+/**
+ * Apply a {@link dehydrate} payload on the client, before hydrating the tree.
+ *
+ * Each store listed in the payload is `replace`d (labelled `"hydrate"`) and
+ * its server snapshot is pinned to the transferred state, so the first client
+ * render matches the server HTML. Keys missing from the payload are skipped.
+ *
+ * @param stores - Stores keyed by the names used on the server.
+ * @param payload - The serialized payload; `null` / `undefined` is a no-op.
+ * @category SSR
+ *
+ * @example
+ * hydrate({ app: store }, readHydrationScript());
+ * hydrateRoot(document.getElementById("root")!, <App />);
+ */
+export function hydrate(
+  stores: Record<string, Store<any>>,
+  payload: string | null | undefined
+): void {
+  if (payload == null) return;
+  const snapshot = deserialize<Record<string, unknown>>(payload);
+  batch(() => {
+    for (const key of Object.keys(stores)) {
+      if (!Object.prototype.hasOwnProperty.call(snapshot, key)) continue;
+      stores[key].replace(snapshot[key], { label: "hydrate" });
+      pinServerState(stores[key], snapshot[key], true);
+    }
+  });
+}
+
+/**
+ * Read the payload rendered by {@link HydrationScript}.
+ *
+ * @param id - Script element id (default {@link HYDRATION_SCRIPT_ID}).
+ * @returns The payload, or `null` on the server or when the script is missing.
+ * @category SSR
+ */
+export function readHydrationScript(
+  id: string = HYDRATION_SCRIPT_ID
+): string | null {
+  if (typeof document === "undefined") return null;
+  return document.getElementById(id)?.textContent ?? null;
+}
+
+/**
+ * Props for {@link HydrationScript}.
+ * @category SSR
+ */
+export type HydrationScriptProps = {
+  /** Stores keyed by the names used with {@link hydrate}. */
+  stores: Record<string, ReadableStore<any>>;
+  /** Script element id (default {@link HYDRATION_SCRIPT_ID}). */
+  id?: string;
+  /** CSP nonce for the script tag. */
+  nonce?: string;
+};
+
+/**
+ * Render a `<script type="application/json">` carrying the {@link dehydrate}d
+ * stores. The payload is computed once per mount.
+ *
+ * @category SSR
+ *
+ * @example
+ * <body>
+ *   <HydrationScript stores={{ app: store }} />
+ *   <App />
+ * </body>
+ */
+export function HydrationScript({
+  stores,
+  id = HYDRATION_SCRIPT_ID,
+  nonce,
+}: HydrationScriptProps) {
+  const [payload] = React.useState(() => dehydrate(stores));
+  return (
+    <script
+      id={id}
+      type="application/json"
+      nonce={nonce}
+      suppressHydrationWarning
+      dangerouslySetInnerHTML={{ __html: payload }}
+    />
+  );
+}
@@ -1,5 +1,17 @@
 export type Notifier = () => void;
 
+/** Aggregates created here, so nested flushes can unwrap them. */
+const aggregated = new WeakSet<object>();
+
+function listenerErrors(errors: unknown[]): AggregateError {
+  const error = new AggregateError(
+    errors,
+    `react-tiny-store: ${errors.length} listener(s) threw during notification`
+  );
+  aggregated.add(error);
+  return error;
+}
+
 /**
  * Minimal, synchronous batching coordinator.
  *
@@ -23,11 +35,33 @@ class BatchNotifier {
    * @internal
    */
   private _flush() {
-    if (this._queue.size) {
-      const run = Array.from(this._queue);
-      this._queue.clear();
-      for (const n of run) n();
+    if (this._queue.size) flushObservers.forEach((o) => o());
+    // Stay "in batch" while flushing so notifiers scheduled by listeners
+    // (e.g. derived stores) are queued and de-duplicated too.
+    this._depth++;
+    const outer = flushing;
+    flushing = this;
+    // A throwing notifier must not keep the rest of the queue stale.
+    const errors: unknown[] = [];
+    try {
+      while (this._queue.size) {
+        const run = Array.from(this._queue);
+        this._queue.clear();
+        for (const n of run) {
+          try {
+            n();
+          } catch (error) {
+            if (error instanceof AggregateError && aggregated.has(error))
+              errors.push(...error.errors);
+            else errors.push(error);
+          }
+        }
+      }
+    } finally {
+      flushing = outer;
+      this._depth--;
     }
+    if (errors.length) throw listenerErrors(errors);
   }
 
   /**
@@ -39,13 +73,41 @@ class BatchNotifier {
    * Do not `await` inside `fn`. For async flows, wrap each synchronous segment in its own `batch`.
    */
   run(fn: () => void): void {
-    this._depth++;
+    this.hold();
     try {
       fn();
-    } finally {
-      this._depth--;
-      if (this._depth === 0) this._flush();
+    } catch (error) {
+      // Still deliver what was queued. Listener errors join the batch's own
+      // error, which stays first (and is the `cause`).
+      try {
+        this.release();
+      } catch (flushError) {
+        const listeners =
+          flushError instanceof AggregateError && aggregated.has(flushError)
+            ? flushError.errors
+            : [flushError];
+        throw Object.assign(
+          new AggregateError(
+            [error, ...listeners],
+            `react-tiny-store: batch threw and ${listeners.length} listener(s) threw during notification`
+          ),
+          { cause: error }
+        );
+      }
+      throw error;
     }
+    this.release();
+  }
+
+  /** Open a batch without a callback; pair with {@link release}. */
+  hold() {
+    this._depth++;
+  }
+
+  /** Close a batch opened by {@link hold}, flushing when it was the outermost. */
+  release() {
+    this._depth--;
+    if (this._depth === 0) this._flush();
   }
 
   /**
@@ -63,8 +125,78 @@ class BatchNotifier {
   }
 }
 
+/** The scope currently flushing, so derived notifiers join its queue. */
+let flushing: BatchNotifier | undefined;
+
+const flushObservers = new Set<() => void>();
+
+/**
+ * Call `fn` whenever any batch (global or scoped) starts flushing queued
+ * notifications. Used by the testing helpers.
+ * @internal
+ */
+export function observeFlushes(fn: () => void): () => void {
+  flushObservers.add(fn);
+  return () => void flushObservers.delete(fn);
+}
+
+/**
+ * Whether a batch is delivering queued notifications right now.
+ * @internal
+ */
+export function isFlushing() {
+  return flushing !== undefined;
+}
+
 const batching = new BatchNotifier();
 
+const scopes = new WeakMap<BatchScope, BatchNotifier>();
+
+/**
+ * An isolated batch: its own depth counter and queue.
+ * @category Store
+ */
+export type BatchScope = {
+  /** Run `fn` as a batch for the stores attached to this scope. */
+  batch: (fn: () => void) => void;
+};
+
+/**
+ * Create an isolated batch scope for a separate app root, micro-frontend or
+ * test suite. Attach stores with `makeStore(initial, { batch: scope })`.
+ *
+ * Scopes are independent: `scope.batch()` defers only the stores attached to
+ * `scope`, and the global {@link batch} defers only stores without a scope.
+ * Nesting batches of different scopes is allowed; each scope flushes when its
+ * own outermost batch ends.
+ *
+ * @returns A {@link BatchScope}.
+ * @category Store
+ *
+ * @example
+ * const scope = createBatchScope();
+ * const store = makeStore({ a: 0, b: 0 }, { batch: scope });
+ * scope.batch(() => {
+ *   store.setState((p) => ({ ...p, a: 1 }));
+ *   store.setState((p) => ({ ...p, b: 1 }));
+ * }); // one notify
+ */
+export function createBatchScope(): BatchScope {
+  const notifier = new BatchNotifier();
+  const scope: BatchScope = { batch: (fn) => notifier.run(fn) };
+  scopes.set(scope, notifier);
+  return scope;
+}
+
+function scopeNotifier(scope: BatchScope): BatchNotifier {
+  const notifier = scopes.get(scope);
+  if (!notifier)
+    throw new Error(
+      "react-tiny-store: batch scopes must be created by createBatchScope"
+    );
+  return notifier;
+}
+
 /**
  * Run several updates as a single batch so subscribers are notified once.
  *
@@ -82,19 +214,141 @@ export function batch(fn: () => void) {
 }
 
 /**
- * Internal helper for stores to schedule notifications through the global batcher.
- * Typically called from within a store after mutating state.
+ * Internal helper for stores to schedule notifications through the global batcher
+ * (or the scope currently flushing). Typically called from within a store after
+ * mutating state.
  *
  * @example
  * // inside a store:
  * enqueueNotify(this._notifyNow);
+ * @internal
  */
-function enqueueNotify(n: Notifier) {
-  batching.enqueue(n);
+export function enqueueNotify(n: Notifier) {
+  (flushing ?? batching).enqueue(n);
 }
 
-/** Callback fired after state changes. */
-export type Listener = () => void;
+/**
+ * Schedules a notification flush. Receives the flush callback and decides when
+ * to run it; notifications arriving before it runs are coalesced.
+ * @category Store
+ */
+export type Scheduler = (flush: () => void) => void;
+
+/**
+ * Built-in scheduler names, or a custom {@link Scheduler}:
+ * - `"sync"`: notify right after each update (default).
+ * - `"microtask"`: coalesce every update made in the same tick.
+ * - `"animationFrame"`: coalesce until the next frame (drag, pointer moves).
+ * @category Store
+ */
+export type SchedulerOption =
+  "sync" | "microtask" | "animationFrame" | Scheduler;
+
+const schedulers: Record<Exclude<SchedulerOption, Scheduler>, Scheduler> = {
+  sync: (flush) => flush(),
+  microtask: (flush) => queueMicrotask(flush),
+  animationFrame: (flush) => {
+    if (typeof requestAnimationFrame === "function")
+      requestAnimationFrame(() => flush());
+    else setTimeout(flush, 16);
+  },
+};
+
+let defaultScheduler: SchedulerOption = "sync";
+
+/**
+ * Set the scheduler used by stores created without a `scheduler` option.
+ * Takes effect for their next notification.
+ *
+ * @param scheduler - A built-in name or a custom {@link Scheduler}.
+ * @category Store
+ *
+ * @example
+ * setDefaultScheduler("microtask");
+ */
+export function setDefaultScheduler(scheduler: SchedulerOption) {
+  defaultScheduler = scheduler;
+}
+
+function resolveScheduler(option: SchedulerOption): Scheduler {
+  return typeof option === "function" ? option : schedulers[option];
+}
+
+/**
+ * What changed, delivered to {@link Listener}s. Inside `batch()` the changes
+ * are combined: `prev` is the state before the batch and `next` the state after.
+ * @typeParam T - State shape.
+ * @category Store
+ */
+export type StoreChange<T> = {
+  /** State before the change (or before the batch). */
+  prev: T;
+  /** State after the change. */
+  next: T;
+  /** The last named action behind the change, if any. */
+  action?: StoreAction;
+  /** Every named action behind the change, in order. */
+  actions: StoreAction[];
+};
+
+/**
+ * Callback fired after state changes. The change payload is optional to use;
+ * zero-argument listeners (e.g. from `useSyncExternalStore`) keep working.
+ * @typeParam T - State shape.
+ */
+export type Listener<T = any> = (change: StoreChange<T>) => void;
+
+/**
+ * Where a listener error came from, passed to {@link ListenerErrorHandler}.
+ * @category Store
+ */
+export type ListenerErrorContext = {
+  /** The store whose listener threw. */
+  store: ReadableStore<any>;
+  /** The listener that threw. */
+  listener: Listener<any>;
+};
+
+/**
+ * Receives errors thrown by listeners; the remaining listeners still run.
+ * @category Store
+ */
+export type ListenerErrorHandler = (
+  error: unknown,
+  context: ListenerErrorContext
+) => void;
+
+/**
+ * Call every listener even if some throw. Errors go to `onError`, or are
+ * rethrown together as an `AggregateError` once all listeners ran.
+ * @internal
+ */
+export function notifyListeners<T>(
+  store: ReadableStore<T>,
+  listeners: Set<Listener<T>>,
+  change: StoreChange<T>,
+  onError?: ListenerErrorHandler
+) {
+  const errors: unknown[] = [];
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(change);
+    } catch (error) {
+      if (onError) onError(error, { store, listener });
+      else errors.push(error);
+    }
+  }
+  if (errors.length) throw listenerErrors(errors);
+}
+
+/**
+ * Per-write options for `setState` / `replace`.
+ * @category Store
+ */
+export type SetStateOptions = {
+  /** Name the write; listeners and middleware see it as `action.type`. */
+  label?: string;
+};
 
 /**
  * Minimal external store (usually consumed via hooks).
@@ -104,61 +358,314 @@ export interface Store<T> {
   /** Read current state (sync). */
   getState: () => T;
   /** Set next state or updater; notifies if changed. */
-  setState: (u: T | ((p: T) => T)) => void;
+  setState: (u: T | ((p: T) => T), options?: SetStateOptions) => void;
   /** Replace entire state; notifies if changed. */
-  replace: (next: T) => void;
+  replace: (next: T, options?: SetStateOptions) => void;
   /** Reset to the initial state captured at construction. */
   reset: () => void;
   /** Subscribe to changes. Returns an unsubscribe function. */
-  subscribe: (l: Listener) => () => void;
+  subscribe: (l: Listener<T>) => () => void;
   /** Initial state captured at construction (for hydration). */
   getInitialState: () => T;
+  /**
+   * Snapshot used for server rendering and hydration. Defaults to the initial
+   * state; `dehydrate` / `hydrate` pin it to the transferred state.
+   */
+  getServerState?: () => T;
+}
+
+/**
+ * The read-only part of {@link Store}: enough for `useStoreSelector`.
+ * @typeParam T - State shape.
+ */
+export type ReadableStore<T> = Pick<
+  Store<T>,
+  "getState" | "subscribe" | "getInitialState" | "getServerState"
+>;
+
+/**
+ * The state a store renders on the server and during hydration.
+ * @internal
+ */
+export function serverSnapshot<T>(store: ReadableStore<T>): T {
+  return store.getServerState
+    ? store.getServerState()
+    : store.getInitialState();
+}
+
+/** The store operation that produced a write. */
+export type StoreOp = "setState" | "replace" | "reset";
+
+/**
+ * Describes the named action behind a write (e.g. a `createStoreSlice` key).
+ * @category Store
+ */
+export type StoreAction = {
+  /** Action name, e.g. the slice updater key. */
+  type: string;
+  /** Arguments the action was called with. */
+  args?: unknown[];
+};
+
+let currentAction: StoreAction | undefined;
+
+/**
+ * Run `fn` with `action` attached to every write it performs.
+ * Used by `createStoreSlice` so middleware can see which updater ran.
+ * @internal
+ */
+export function runAsAction<R>(action: StoreAction, fn: () => R): R {
+  const outer = currentAction;
+  currentAction = action;
+  try {
+    return fn();
+  } finally {
+    currentAction = outer;
+  }
 }
 
+/**
+ * A proposed state write, as seen by {@link Middleware}.
+ * @typeParam T - State shape.
+ */
+export type StoreWrite<T> = {
+  /** Operation that produced the write. */
+  op: StoreOp;
+  /** State before the write. */
+  prev: T;
+  /** Proposed next state (already transformed by earlier middleware). */
+  next: T;
+  /** Named action behind the write, when one is known. */
+  action?: StoreAction;
+};
+
+/**
+ * Intercepts writes before they are committed.
+ *
+ * Return `write.next` to pass the write through, a different value to change it,
+ * or `write.prev` to veto it (an unchanged state never notifies).
+ * @typeParam T - State shape.
+ * @category Store
+ */
+export type Middleware<T> = (write: StoreWrite<T>) => T;
+
+/**
+ * Options accepted by {@link makeStore}.
+ * @typeParam T - State shape.
+ */
+export type StoreOptions<T> = {
+  /** Write interceptors, run in order for every `setState` / `replace` / `reset`. */
+  middleware?: Middleware<T>[];
+  /**
+   * When subscribers are notified (default: the global default, `"sync"`).
+   * `getState()` always returns the latest state.
+   */
+  scheduler?: SchedulerOption;
+  /** Batch scope from {@link createBatchScope} (default: the global `batch`). */
+  batch?: BatchScope;
+  /**
+   * Handle errors thrown by listeners. Without it they are rethrown as one
+   * `AggregateError` after every listener (and every queued store) ran.
+   */
+  onError?: ListenerErrorHandler;
+};
+
+/**
+ * Handle for a pending optimistic layer, returned by {@link optimisticUpdate}.
+ * Both methods are no-ops once the layer has settled.
+ * @typeParam T - State shape.
+ * @category Store
+ */
+export type OptimisticHandle<T> = {
+  /**
+   * Confirm the layer: apply `final` (or the optimistic updater) to the
+   * confirmed state and drop the layer.
+   */
+  commit: (final?: (p: T) => T) => void;
+  /** Drop the layer; the remaining layers are replayed on the confirmed state. */
+  rollback: () => void;
+};
+
+type Layer<T> = { update: (p: T) => T };
+
 class TinyStore<T> implements Store<T> {
+  /** Confirmed state; middleware sees writes to this. */
+  private _base: T;
+  /** Visible state: `_base` with pending optimistic layers applied in order. */
   private _state: T;
   private readonly _initial: T;
-  private _listeners = new Set<Listener>();
+  private readonly _middleware: Middleware<T>[];
+  private readonly _scheduler: SchedulerOption | undefined;
+  private _scheduled = false;
+  private readonly _batching: BatchNotifier;
+  private readonly _onError: ListenerErrorHandler | undefined;
+  private _server: { state: T; hydrated: boolean } | undefined;
+  private _layers: Layer<T>[] = [];
+  private _listeners = new Set<Listener<T>>();
+  /** Changes since the last notification (combined across a batch). */
+  private _pending: { prev: T; actions: StoreAction[] } | undefined;
+  /** Open {@link holdNotifications} holds; changes are queued on release. */
+  private _holds = 0;
 
-  constructor(initial: T) {
+  constructor(initial: T, options: StoreOptions<T> = {}) {
+    this._base = initial;
     this._state = initial;
     this._initial = initial;
+    this._middleware = options.middleware ? [...options.middleware] : [];
+    this._scheduler = options.scheduler;
+    this._batching = options.batch ? scopeNotifier(options.batch) : batching;
+    this._onError = options.onError;
   }
 
   private _notify = () => {
-    for (const l of Array.from(this._listeners)) l();
+    const pending = this._pending;
+    if (!pending) return;
+    this._pending = undefined;
+    const { prev, actions } = pending;
+    const change: StoreChange<T> = {
+      prev,
+      next: this._state,
+      action: actions[actions.length - 1],
+      actions,
+    };
+    notifyListeners(this, this._listeners, change, this._onError);
+  };
+
+  /** Hand the notification to the scheduler once per flush. */
+  private _schedule = () => {
+    if (this._scheduled) return;
+    this._scheduled = true;
+    resolveScheduler(this._scheduler ?? defaultScheduler)(() => {
+      this._scheduled = false;
+      this._notify();
+    });
   };
 
+  private _show(next: T, action?: StoreAction) {
+    if (Object.is(next, this._state)) return;
+    if (!this._pending) this._pending = { prev: this._state, actions: [] };
+    if (action) this._pending.actions.push(action);
+    this._state = next;
+    if (!this._holds) this._batching.enqueue(this._schedule);
+  }
+
+  /** @internal */
+  _hold() {
+    this._holds++;
+    let held = true;
+    return () => {
+      if (!held) return;
+      held = false;
+      if (--this._holds || !this._pending) return;
+      this._batching.enqueue(this._schedule);
+    };
+  }
+
+  private _rebase(action?: StoreAction) {
+    let next = this._base;
+    for (const layer of this._layers) next = layer.update(next);
+    this._show(next, action);
+  }
+
+  /**
+   * Run middleware over a proposed confirmed write and commit the result.
+   * @returns Whether the confirmed state changed (and was rebased).
+   * @internal
+   */
+  private _commit(
+    op: StoreOp,
+    proposed: T,
+    options?: SetStateOptions
+  ): boolean {
+    const prev = this._base;
+    if (Object.is(proposed, prev)) return false;
+    const action = options?.label ? { type: options.label } : currentAction;
+    let next = proposed;
+    for (const mw of Array.from(this._middleware))
+      next = mw({ op, prev, next, action });
+    if (Object.is(next, prev)) return false;
+    this._base = next;
+    this._rebase(action);
+    return true;
+  }
+
   getState = (): T => this._state;
 
-  setState = (u: T | ((p: T) => T)) => {
-    const next = typeof u === "function" ? (u as (p: T) => T)(this._state) : u;
-    if (!Object.is(next, this._state)) {
-      this._state = next;
-      enqueueNotify(this._notify);
-    }
+  /** @internal */
+  _confirmed = (): T => this._base;
+
+  /** Updaters receive the confirmed state; pending layers are replayed on top. */
+  setState = (u: T | ((p: T) => T), options?: SetStateOptions) => {
+    const next = typeof u === "function" ? (u as (p: T) => T)(this._base) : u;
+    this._commit("setState", next, options);
   };
 
-  replace = (next: T) => {
-    if (!Object.is(next, this._state)) {
-      this._state = next;
-      enqueueNotify(this._notify);
-    }
+  replace = (next: T, options?: SetStateOptions) => {
+    this._commit("replace", next, options);
   };
 
+  /** Also discards pending optimistic layers. */
   reset = () => {
-    if (!Object.is(this._initial, this._state)) {
-      this._state = this._initial;
-      enqueueNotify(this._notify);
-    }
+    this._layers = [];
+    if (!this._commit("reset", this._initial)) this._rebase();
   };
 
-  subscribe = (l: Listener) => {
+  subscribe = (l: Listener<T>) => {
     this._listeners.add(l);
     return () => this._listeners.delete(l);
   };
 
   getInitialState = () => this._initial;
+
+  getServerState = () => (this._server ? this._server.state : this._initial);
+
+  /**
+   * Pin the server snapshot. A snapshot pinned by `hydrate` is kept.
+   * @internal
+   */
+  _pinServerState(state: T, hydrated: boolean) {
+    if (this._server?.hydrated && !hydrated) return;
+    this._server = { state, hydrated };
+  }
+
+  /**
+   * Append a middleware after construction.
+   * @internal
+   */
+  _use(mw: Middleware<T>) {
+    this._middleware.push(mw);
+    return () => {
+      const i = this._middleware.indexOf(mw);
+      if (i !== -1) this._middleware.splice(i, 1);
+    };
+  }
+
+  /**
+   * Push an optimistic layer on top of the visible state.
+   * @internal
+   */
+  _optimistic(update: (p: T) => T): OptimisticHandle<T> {
+    const layer: Layer<T> = { update };
+    this._layers.push(layer);
+    this._show(update(this._state));
+
+    const settle = () => {
+      const i = this._layers.indexOf(layer);
+      if (i === -1) return false;
+      this._layers.splice(i, 1);
+      return true;
+    };
+
+    return {
+      commit: (final = update) => {
+        if (!settle()) return;
+        if (!this._commit("setState", final(this._base))) this._rebase();
+      },
+      rollback: () => {
+        if (settle()) this._rebase();
+      },
+    };
+  }
 }
 
 /**
@@ -166,13 +673,164 @@ class TinyStore<T> implements Store<T> {
  *
  * @typeParam T - Root state shape.
  * @param initial - Initial state; also captured for `getInitialState()`.
+ * @param options - Optional {@link StoreOptions} such as `middleware`.
  * @returns A `Store<T>` with `getState`, `setState`, `replace`, `subscribe`, and `getInitialState`.
  * @category Store
  *
  * @example
  * const store = makeStore({ count: 0 });
  * store.setState(p => ({ ...p, count: p.count + 1 }));
+ *
+ * @example
+ * store.subscribe(({ prev, next, action }) => console.log(action?.type, prev, next));
+ * store.setState((p) => ({ ...p, count: 0 }), { label: "counter/clear" });
+ *
+ * @example
+ * // Coalesce pointer-driven updates into one notification per frame
+ * const drag = makeStore({ x: 0, y: 0 }, { scheduler: "animationFrame" });
+ *
+ * @example
+ * const logged = makeStore({ count: 0 }, {
+ *   middleware: [({ op, prev, next }) => (console.log(op, prev, next), next)],
+ * });
+ */
+export function makeStore<T>(initial: T, options?: StoreOptions<T>): Store<T> {
+  return new TinyStore<T>(initial, options);
+}
+
+/**
+ * What a store built on another one (`focus`, `overlay`, `withHistory`)
+ * forwards to it, so `optimisticUpdate`, `addMiddleware` and `connectDevtools`
+ * work on the wrapper too.
+ * @internal
+ */
+export type StoreDelegate<T> = {
+  optimistic: (update: (p: T) => T) => OptimisticHandle<T>;
+  use: (mw: Middleware<T>) => () => void;
+  confirmed: () => T;
+  hold: () => () => void;
+};
+
+const delegates = new WeakMap<object, StoreDelegate<any>>();
+
+/**
+ * Register how a wrapper store forwards store operations.
+ * @internal
+ */
+export function delegateStore<T>(
+  store: ReadableStore<T>,
+  delegate: StoreDelegate<T>
+) {
+  delegates.set(store, delegate);
+}
+
+function delegateOf<T>(store: ReadableStore<T>, fn: string) {
+  const delegate = delegates.get(store) as StoreDelegate<T> | undefined;
+  if (!delegate)
+    throw new Error(
+      `react-tiny-store: ${fn} expects a store created by makeStore (or focus, overlay or withHistory of one)`
+    );
+  return delegate;
+}
+
+/**
+ * Attach a middleware to an existing store created by {@link makeStore}.
+ * It runs after the store's own middleware. On a `focus` / `overlay` /
+ * `withHistory` store it is attached to the underlying store and sees the
+ * wrapper's view of each write.
+ *
+ * @typeParam T - State shape.
+ * @param store - A store created by `makeStore` (or a wrapper of one).
+ * @param mw - Middleware to append.
+ * @returns A function that detaches the middleware.
+ * @category Store
+ *
+ * @example
+ * const detach = addMiddleware(store, ({ next }) => (audit(next), next));
+ */
+export function addMiddleware<T>(
+  store: Store<T>,
+  mw: Middleware<T>
+): () => void {
+  if (store instanceof TinyStore) return (store as TinyStore<T>)._use(mw);
+  return delegateOf(store, "addMiddleware").use(mw);
+}
+
+/**
+ * Apply an optimistic update as a pending layer over the store's confirmed state.
+ *
+ * The store keeps the confirmed state plus ordered pending layers; `getState()`
+ * returns the confirmed state with every layer applied. Regular writes update
+ * the confirmed state and the layers are replayed on top, so `updater` must be
+ * pure. Rolling back one layer keeps the others, including later ones.
+ * `replace` also writes the confirmed state, so `withHistory`, devtools and
+ * `syncAcrossTabs` record and restore confirmed snapshots and leave pending
+ * layers in place.
+ *
+ * On a `focus` / `overlay` / `withHistory` store the layer is applied to the
+ * underlying store.
+ *
+ * @typeParam T - State shape.
+ * @param store - A store created by `makeStore` (or a wrapper of one).
+ * @param updater - Pure `(prev) => next` applied now and on every replay.
+ * @returns An {@link OptimisticHandle} to `commit` or `rollback` the layer.
+ * @category Store
+ *
+ * @example
+ * const tmp = { id: "tmp-1", text };
+ * const layer = optimisticUpdate(store, (p) => ({ ...p, todos: [tmp, ...p.todos] }));
+ * try {
+ *   const real = await api.create(text);
+ *   layer.commit((p) => ({ ...p, todos: [real, ...p.todos] }));
+ * } catch {
+ *   layer.rollback();
+ * }
+ */
+export function optimisticUpdate<T>(
+  store: Store<T>,
+  updater: (p: T) => T
+): OptimisticHandle<T> {
+  if (store instanceof TinyStore)
+    return (store as TinyStore<T>)._optimistic(updater);
+  return delegateOf(store, "optimisticUpdate").optimistic(updater);
+}
+
+/**
+ * Defer `store`'s notifications until the returned function is called
+ * (calling it again is a no-op); other stores, even on the same batch, are
+ * not affected. Lets a Provider re-initialize its store during render without
+ * updating subscribers mid-render. A no-op for stores not built on
+ * {@link makeStore}.
+ * @internal
+ */
+export function holdNotifications<T>(store: ReadableStore<T>): () => void {
+  if (store instanceof TinyStore) return (store as TinyStore<T>)._hold();
+  const delegate = delegates.get(store) as StoreDelegate<T> | undefined;
+  return delegate ? delegate.hold() : () => {};
+}
+
+/**
+ * Confirmed state of a store, without pending optimistic layers. Features that
+ * keep snapshots to `replace` later (history, devtools, tab sync) must read
+ * this: `replace` writes the confirmed state and the layers are replayed on top.
+ * @internal
+ */
+export function confirmedState<T>(store: ReadableStore<T>): T {
+  if (store instanceof TinyStore) return (store as TinyStore<T>)._confirmed();
+  const delegate = delegates.get(store) as StoreDelegate<T> | undefined;
+  return delegate ? delegate.confirmed() : store.getState();
+}
+
+/**
+ * Pin the server snapshot of a store created by {@link makeStore}; other
+ * stores derive theirs from their sources.
+ * @internal
  */
-export function makeStore<T>(initial: T): Store<T> {
-  return new TinyStore<T>(initial);
+export function pinServerState<T>(
+  store: ReadableStore<T>,
+  state: T,
+  hydrated: boolean
+) {
+  if (store instanceof TinyStore)
+    (store as TinyStore<T>)._pinServerState(state, hydrated);
 }
@@ -0,0 +1,56 @@
+import { type ReadableStore } from "./store";
+
+/**
+ * Options for {@link subscribeWithSelector}.
+ * @typeParam S - Selected value.
+ */
+export type SubscribeOptions<S> = {
+  /** Suppress calls while the selected value is equal (default `Object.is`). */
+  equalityFn?: (a: S, b: S) => boolean;
+  /** Call the listener once right away with the current value (`prev === next`). */
+  fireImmediately?: boolean;
+};
+
+/**
+ * Subscribe to a selected value outside React.
+ *
+ * The listener receives `(next, prev)` and runs only when the selection changed.
+ * Store notifications are already batched, so a `batch()` produces at most one
+ * call with the value at the end of the batch.
+ *
+ * @typeParam T - Root state.
+ * @typeParam S - Selected value.
+ * @param store - Any {@link ReadableStore}.
+ * @param selector - Pure `(root) => value`.
+ * @param listener - `(next, prev) => void`.
+ * @param options - {@link SubscribeOptions}.
+ * @returns An unsubscribe function.
+ * @category Store
+ *
+ * @example
+ * const stop = subscribeWithSelector(
+ *   store,
+ *   (s) => s.route,
+ *   (route) => history.replaceState(null, "", route),
+ *   { fireImmediately: true }
+ * );
+ */
+export function subscribeWithSelector<T, S>(
+  store: ReadableStore<T>,
+  selector: (root: T) => S,
+  listener: (next: S, prev: S) => void,
+  options: SubscribeOptions<S> = {}
+): () => void {
+  const { equalityFn = Object.is, fireImmediately = false } = options;
+  let last = selector(store.getState());
+
+  const unsubscribe = store.subscribe(() => {
+    const next = selector(store.getState());
+    if (equalityFn(last, next)) return;
+    const prev = last;
+    last = next;
+    listener(next, prev);
+  });
+  if (fireImmediately) listener(last, last);
+  return unsubscribe;
+}
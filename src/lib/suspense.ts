@@ -0,0 +1,190 @@
+import { type ReadableStore } from "./store";
+import { useStoreSelector } from "./hooks";
+
+/**
+ * A promise wrapper that records its own outcome, so state can hold async data
+ * that `useSuspenseSelector` reads synchronously once settled.
+ * @typeParam V - Resolved value.
+ */
+export type Resource<V> = {
+  readonly status: "pending" | "success" | "error";
+  /** Resolved value (when `status === "success"`). */
+  readonly value?: V;
+  /** Rejection reason (when `status === "error"`). */
+  readonly error?: unknown;
+  /** The wrapped promise. */
+  readonly promise: PromiseLike<V>;
+};
+
+/** Selected value after suspending on promises and {@link Resource}s. */
+export type Unwrap<S> =
+  S extends Resource<infer V> ? V : S extends PromiseLike<infer V> ? V : S;
+
+type Outcome =
+  | { status: "pending" }
+  | { status: "fulfilled"; value: unknown }
+  | { status: "rejected"; reason: unknown };
+
+const resources = new WeakSet<object>();
+const outcomes = new WeakMap<PromiseLike<unknown>, Outcome>();
+
+/**
+ * Wrap a promise as a {@link Resource} to keep in store state.
+ *
+ * @typeParam V - Resolved value.
+ * @param promise - The async work.
+ * @returns A resource whose `status` / `value` / `error` update when it settles.
+ * @category Suspense
+ *
+ * @example
+ * store.setState((p) => ({ ...p, user: createResource(fetchUser(id)) }));
+ */
+export function createResource<V>(promise: PromiseLike<V>): Resource<V> {
+  const resource: {
+    status: Resource<V>["status"];
+    value?: V;
+    error?: unknown;
+    promise: PromiseLike<V>;
+  } = { status: "pending", promise };
+  resources.add(resource);
+  promise.then(
+    (value) => {
+      resource.status = "success";
+      resource.value = value;
+    },
+    (error) => {
+      resource.status = "error";
+      resource.error = error;
+    }
+  );
+  return resource;
+}
+
+function outcome(thenable: PromiseLike<unknown>): Outcome {
+  let o = outcomes.get(thenable);
+  if (!o) {
+    const entry: Outcome = { status: "pending" };
+    o = entry;
+    outcomes.set(thenable, entry);
+    thenable.then(
+      (value) => Object.assign(entry, { status: "fulfilled", value }),
+      (reason) => Object.assign(entry, { status: "rejected", reason })
+    );
+  }
+  return o;
+}
+
+function isResource(v: unknown): v is Resource<unknown> {
+  return typeof v === "object" && v !== null && resources.has(v);
+}
+
+function isThenable(v: unknown): v is PromiseLike<unknown> {
+  return (
+    (typeof v === "object" || typeof v === "function") &&
+    v !== null &&
+    typeof (v as PromiseLike<unknown>).then === "function"
+  );
+}
+
+/** Suspend on pending values, throw rejections, return settled values. */
+function unwrap<S>(selected: S): Unwrap<S> {
+  if (isResource(selected)) {
+    if (selected.status === "pending") throw selected.promise;
+    if (selected.status === "error") throw selected.error;
+    return selected.value as Unwrap<S>;
+  }
+  if (isThenable(selected)) {
+    const o = outcome(selected);
+    if (o.status === "pending") throw selected;
+    if (o.status === "rejected") throw o.reason;
+    return o.value as Unwrap<S>;
+  }
+  return selected as Unwrap<S>;
+}
+
+type Selection = { state: unknown; selected: unknown };
+
+/**
+ * Last selection per store and selector, so a stable selector that creates a
+ * new promise on every call only runs again when the store state changes.
+ */
+const selections = new WeakMap<object, WeakMap<Function, Selection>>();
+
+/**
+ * Selections per store for its latest state, by cache key (the selector's
+ * source unless a key is given). Suspended renders keep no hook state, so an
+ * inline selector is a new function on every retry; this finds the promise it
+ * built for the same state. Dropped when the state changes.
+ */
+const byKey = new WeakMap<
+  object,
+  { state: unknown; selected: Map<string, unknown> }
+>();
+
+/**
+ * Select a value and suspend while it is pending.
+ *
+ * - A pending promise or {@link Resource} suspends to the nearest `<Suspense>`.
+ * - A rejection is thrown to the nearest error boundary.
+ * - Other values are returned as-is.
+ *
+ * A selector may build a new promise on every call, inline or not: its result
+ * is cached per store state, so it re-runs only when the state changes instead
+ * of suspending in a loop. Inline selectors are matched by their source text;
+ * when components call the same inline selector with different values from
+ * their scope (props, ids), pass a `key` that tells them apart.
+ *
+ * @typeParam T - Root state shape.
+ * @typeParam S - Selected value (promise, resource or plain).
+ * @param store - The external store instance.
+ * @param selector - Pure selector `(root) => slice`.
+ * @param key - Cache key for the selection (default: the selector's source).
+ * @returns The settled value.
+ * @category Suspense
+ *
+ * @example
+ * function Profile() {
+ *   const user = useSuspenseSelector(store, (s) => s.user); // Resource<User>
+ *   return <h1>{user.name}</h1>;
+ * }
+ *
+ * function Posts({ userId }: { userId: string }) {
+ *   const posts = useSuspenseSelector(
+ *     store,
+ *     (s) => fetchPosts(userId, s.filter),
+ *     `posts:${userId}`
+ *   );
+ *   return <PostList posts={posts} />;
+ * }
+ *
+ * <ErrorBoundary fallback={<Oops />}>
+ *   <Suspense fallback={<Spinner />}>
+ *     <Profile />
+ *   </Suspense>
+ * </ErrorBoundary>
+ */
+export function useSuspenseSelector<T, S>(
+  store: ReadableStore<T>,
+  selector: (root: T) => S,
+  key?: string
+): Unwrap<S> {
+  let cache = selections.get(store);
+  if (!cache) selections.set(store, (cache = new WeakMap()));
+  const bySelector = cache;
+
+  const selected = useStoreSelector(store, (state: T) => {
+    const last = bySelector.get(selector);
+    if (last && Object.is(last.state, state)) return last.selected as S;
+    let current = byKey.get(store);
+    if (!current || !Object.is(current.state, state))
+      byKey.set(store, (current = { state, selected: new Map() }));
+    const k = key ?? String(selector);
+    const next = current.selected.has(k)
+      ? (current.selected.get(k) as S)
+      : selector(state);
+    current.selected.set(k, next);
+    bySelector.set(selector, { state, selected: next });
+    return next;
+  });
+  return unwrap(selected);
+}
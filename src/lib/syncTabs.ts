@@ -0,0 +1,187 @@
+import { type Store, confirmedState } from "./store";
+
+/**
+ * Message exchanged between tabs by {@link syncAcrossTabs}.
+ * @typeParam T - State shape.
+ */
+export type TabMessage<T> = {
+  /** Id of the sending tab. */
+  source: string;
+  /** Time of the write in the sending tab (ms since epoch). */
+  ts: number;
+  /** Full state after the write. */
+  state: T;
+};
+
+/**
+ * Transport used to reach other tabs. Built-ins wrap `BroadcastChannel` and
+ * `storage` events; tests can pass an in-process fake.
+ * @typeParam T - State shape.
+ * @category Sync
+ */
+export type TabChannel<T> = {
+  post: (message: TabMessage<T>) => void;
+  /** Listen for messages from other tabs. Returns an unsubscribe function. */
+  listen: (fn: (message: TabMessage<T>) => void) => () => void;
+  close?: () => void;
+};
+
+/** A side of a conflict passed to {@link SyncTabsOptions.resolve}. */
+export type TabVersion<T> = { state: T; ts: number };
+
+/**
+ * Options for {@link syncAcrossTabs}.
+ * @typeParam T - State shape.
+ */
+export type SyncTabsOptions<T> = {
+  /** Channel name (default `"react-tiny-store"`) or a custom {@link TabChannel}. */
+  channel?: string | TabChannel<T>;
+  /**
+   * Decide which local changes are sent to other tabs (default: all). This
+   * only controls sending: incoming state still replaces every field unless
+   * `merge` keeps some of them local.
+   */
+  filter?: (next: T, prev: T) => boolean;
+  /**
+   * Combine an accepted incoming state with the local one before applying it
+   * (default: take `remote` as-is). Not used when `resolve` is given.
+   */
+  merge?: (remote: T, local: T) => T;
+  /**
+   * Pick the state to keep when a message arrives. Replaces the default
+   * last-writer-wins rule; the result is applied locally and not re-broadcast,
+   * so it should give the same answer in every tab.
+   */
+  resolve?: (local: TabVersion<T>, remote: TabVersion<T>) => T;
+};
+
+const DEFAULT_CHANNEL = "react-tiny-store";
+
+/**
+ * Create a {@link TabChannel} backed by `BroadcastChannel`.
+ * @category Sync
+ */
+export function createBroadcastChannel<T>(name: string): TabChannel<T> {
+  const bc = new BroadcastChannel(name);
+  return {
+    post: (message) => bc.postMessage(message),
+    listen(fn) {
+      const onMessage = (e: MessageEvent) => fn(e.data);
+      bc.addEventListener("message", onMessage);
+      return () => bc.removeEventListener("message", onMessage);
+    },
+    close: () => bc.close(),
+  };
+}
+
+/**
+ * Create a {@link TabChannel} backed by `localStorage` writes and `storage`
+ * events, for environments without `BroadcastChannel`.
+ * @category Sync
+ */
+export function createStorageChannel<T>(name: string): TabChannel<T> {
+  const key = `${DEFAULT_CHANNEL}:${name}`;
+  return {
+    post: (message) => localStorage.setItem(key, JSON.stringify(message)),
+    listen(fn) {
+      const onStorage = (e: StorageEvent) => {
+        if (e.key === key && e.newValue) fn(JSON.parse(e.newValue));
+      };
+      window.addEventListener("storage", onStorage);
+      return () => window.removeEventListener("storage", onStorage);
+    },
+  };
+}
+
+function defaultChannel<T>(name: string): TabChannel<T> | undefined {
+  if (typeof BroadcastChannel !== "undefined")
+    return createBroadcastChannel<T>(name);
+  if (typeof window !== "undefined" && typeof localStorage !== "undefined")
+    return createStorageChannel<T>(name);
+  return undefined;
+}
+
+let tabCounter = 0;
+function makeTabId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${++tabCounter}`;
+}
+
+/**
+ * Keep a store in sync across browser tabs.
+ *
+ * Local changes are broadcast with a timestamp; incoming ones are applied with
+ * `replace` and never echoed back. When two tabs write concurrently the later
+ * timestamp wins (ties broken by tab id), unless `resolve` is given.
+ * Does nothing when no channel is available (e.g. during SSR).
+ *
+ * @typeParam T - State shape.
+ * @param store - The store to sync.
+ * @param options - {@link SyncTabsOptions}.
+ * @returns A function that stops syncing.
+ * @category Sync
+ *
+ * @example
+ * const store = makeStore({ cart: [] as string[], ui: { open: false } });
+ * const stop = syncAcrossTabs(store, {
+ *   channel: "cart",
+ *   filter: (next, prev) => next.cart !== prev.cart, // don't send UI-only changes
+ *   merge: (remote, local) => ({ ...remote, ui: local.ui }), // keep local UI
+ * });
+ */
+export function syncAcrossTabs<T>(
+  store: Store<T>,
+  options: SyncTabsOptions<T> = {}
+): () => void {
+  const { channel: opt = DEFAULT_CHANNEL, filter, merge, resolve } = options;
+  const channel = typeof opt === "string" ? defaultChannel<T>(opt) : opt;
+  if (!channel) return () => {};
+
+  const id = makeTabId();
+  // Only confirmed state is sent; pending optimistic layers stay in this tab.
+  let last = confirmedState(store);
+  let lastTs = 0;
+  let lastSource = id;
+  // Last state received from another tab; seeing it in our own subscription is an echo.
+  let remote: { state: T } | undefined;
+
+  const unsubscribe = store.subscribe(() => {
+    const next = confirmedState(store);
+    const prev = last;
+    last = next;
+    if (Object.is(next, prev) || (remote && Object.is(next, remote.state)))
+      return;
+    if (filter && !filter(next, prev)) return;
+    lastTs = Math.max(Date.now(), lastTs + 1); // never behind what we've seen
+    lastSource = id;
+    channel.post({ source: id, ts: lastTs, state: next });
+  });
+
+  const unlisten = channel.listen((message) => {
+    if (message.source === id) return;
+    let next: T;
+    if (resolve) {
+      next = resolve(
+        { state: confirmedState(store), ts: lastTs },
+        { state: message.state, ts: message.ts }
+      );
+    } else {
+      const newer =
+        message.ts > lastTs ||
+        (message.ts === lastTs && message.source > lastSource);
+      if (!newer) return;
+      next = merge
+        ? merge(message.state, confirmedState(store))
+        : message.state;
+    }
+    lastTs = Math.max(lastTs, message.ts);
+    lastSource = message.source;
+    remote = { state: next };
+    store.replace(next);
+  });
+
+  return () => {
+    unsubscribe();
+    unlisten();
+    if (typeof opt === "string") channel.close?.();
+  };
+}
@@ -0,0 +1,392 @@
+import React from "react";
+import { createRoot } from "react-dom/client";
+import * as TestUtils from "react-dom/test-utils";
+import {
+  type Store,
+  type StoreAction,
+  type StoreChange,
+  isFlushing,
+  makeStore,
+  observeFlushes,
+} from "./store";
+import type { ProviderProps } from "./createContextSync";
+
+/* =============================================================================
+   Test helpers (runner-agnostic; need a DOM such as jsdom for rendering)
+============================================================================= */
+
+/** React's `act`, from `react` (18.3+, 19) or `react-dom/test-utils` (18.0–18.2). */
+const reactAct: typeof React.act =
+  typeof React.act === "function" ? React.act : TestUtils.act;
+
+type ActGlobal = { IS_REACT_ACT_ENVIRONMENT?: boolean };
+
+/**
+ * Run `fn` inside React's `act`, flagging the environment as an act
+ * environment for the duration so React does not warn.
+ *
+ * @param fn - Work that updates stores or renders; may be async.
+ * @returns A promise when `fn` is async.
+ * @category Testing
+ */
+export function act(fn: () => void): void;
+export function act<R>(fn: () => Promise<R>): Promise<R>;
+export function act(fn: () => unknown): unknown {
+  const env = globalThis as ActGlobal;
+  const previous = env.IS_REACT_ACT_ENVIRONMENT;
+  env.IS_REACT_ACT_ENVIRONMENT = true;
+  let result: unknown;
+  try {
+    result = reactAct(fn as () => Promise<unknown>);
+  } catch (error) {
+    env.IS_REACT_ACT_ENVIRONMENT = previous;
+    throw error;
+  }
+  if (isThenable(result))
+    return Promise.resolve(result).finally(() => {
+      env.IS_REACT_ACT_ENVIRONMENT = previous;
+    });
+  env.IS_REACT_ACT_ENVIRONMENT = previous;
+  return undefined;
+}
+
+function isThenable(v: unknown): v is PromiseLike<unknown> {
+  return (
+    typeof v === "object" &&
+    v !== null &&
+    typeof (v as PromiseLike<unknown>).then === "function"
+  );
+}
+
+/**
+ * Options for {@link renderWithStore}: where the store comes from and which
+ * Provider (if any) to render it in.
+ * @typeParam T - Root state.
+ */
+export type RenderWithStoreOptions<T> = {
+  /**
+   * A `createContextSync` result; the tree is wrapped in its Provider, bound
+   * to the returned store.
+   */
+  context?: { Provider: (props: ProviderProps<T>) => React.ReactNode };
+} & (
+  | { /** Initial state of a new store. */ initial: T; store?: undefined }
+  | { /** Use an existing store. */ store: Store<T>; initial?: undefined }
+);
+
+/** UI to render, or a function of the store for store-param hooks. */
+export type StoreUI<T> =
+  React.ReactNode | ((store: Store<T>) => React.ReactNode);
+
+/**
+ * Result of {@link renderWithStore}.
+ * @typeParam T - Root state.
+ */
+export type RenderWithStoreResult<T> = {
+  /** The store the rendered tree reads. */
+  store: Store<T>;
+  /** Element the tree is rendered into (attached to `document.body`). */
+  container: HTMLElement;
+  /** Render new UI against the same store. */
+  rerender: (ui: StoreUI<T>) => void;
+  /** Unmount and detach the container. */
+  unmount: () => void;
+};
+
+/**
+ * Render `ui` against a store, inside `context.Provider` when given, and
+ * return the store so tests can drive and inspect it.
+ *
+ * @typeParam T - Root state.
+ * @param ui - Elements, or `(store) => elements`.
+ * @param options - {@link RenderWithStoreOptions}.
+ * @returns {@link RenderWithStoreResult}.
+ * @category Testing
+ *
+ * @example
+ * const Tiny = createContextSync<AppState>();
+ * const { store, container } = renderWithStore(<TodoList />, {
+ *   initial: { todos: [] },
+ *   context: Tiny,
+ * });
+ * act(() => store.setState({ todos: [{ id: "1", text: "A" }] }));
+ * container.textContent; // "A"
+ */
+export function renderWithStore<T>(
+  ui: StoreUI<T>,
+  options: RenderWithStoreOptions<T>
+): RenderWithStoreResult<T> {
+  const store = options.store ?? makeStore(options.initial as T);
+  const { context } = options;
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+  const root = createRoot(container);
+
+  const render = (next: StoreUI<T>) => {
+    const children = typeof next === "function" ? next(store) : next;
+    act(() =>
+      root.render(
+        context ? (
+          <context.Provider store={store}>{children}</context.Provider>
+        ) : (
+          children
+        )
+      )
+    );
+  };
+  render(ui);
+
+  return {
+    store,
+    container,
+    rerender: render,
+    unmount() {
+      act(() => root.unmount());
+      container.remove();
+    },
+  };
+}
+
+/**
+ * Result of {@link renderHookWithStore}.
+ * @typeParam T - Root state.
+ * @typeParam R - Hook result.
+ */
+export type RenderHookWithStoreResult<T, R> = Omit<
+  RenderWithStoreResult<T>,
+  "rerender"
+> & {
+  /** Latest hook result. */
+  result: { readonly current: R };
+  /** How many times the hook's component has rendered. */
+  readonly renders: number;
+  /** Render the hook again without a store change. */
+  rerender: () => void;
+};
+
+/**
+ * Render a hook (typically a selector) against a store and count renders,
+ * to check that unrelated updates do not re-render.
+ *
+ * @typeParam T - Root state.
+ * @typeParam R - Hook result.
+ * @param hook - `(store) => value`; call store-param or context hooks here.
+ * @param options - {@link RenderWithStoreOptions}.
+ * @returns {@link RenderHookWithStoreResult}.
+ * @category Testing
+ *
+ * @example
+ * const probe = renderHookWithStore(() => Tiny.useSelector((s) => s.count), {
+ *   initial: { count: 0, other: 0 },
+ *   context: Tiny,
+ * });
+ * act(() => probe.store.setState((p) => ({ ...p, other: 1 })));
+ * probe.renders; // 1
+ */
+export function renderHookWithStore<T, R>(
+  hook: (store: Store<T>) => R,
+  options: RenderWithStoreOptions<T>
+): RenderHookWithStoreResult<T, R> {
+  const result = {} as { current: R };
+  let renders = 0;
+  let store!: Store<T>;
+
+  function Probe() {
+    renders++;
+    result.current = hook(store);
+    return null;
+  }
+
+  const rendered = renderWithStore((s) => {
+    store = s;
+    return <Probe />;
+  }, options);
+
+  return {
+    store: rendered.store,
+    container: rendered.container,
+    unmount: rendered.unmount,
+    result,
+    get renders() {
+      return renders;
+    },
+    rerender: () => rendered.rerender(() => <Probe />),
+  };
+}
+
+/**
+ * Notifications observed by {@link recordNotifications}.
+ * @typeParam T - Root state.
+ */
+export type NotificationRecorder<T> = {
+  /** Notifications delivered to the store's listeners. */
+  readonly notifications: number;
+  /** Batch flushes (global or scoped) that notified this store's listeners. */
+  readonly flushes: number;
+  /** Change payloads, in order. */
+  readonly changes: readonly StoreChange<T>[];
+  /** Reset the counters. */
+  clear: () => void;
+  /** Stop recording. */
+  stop: () => void;
+};
+
+/**
+ * Count a store's notifications and the batch flushes that deliver them.
+ *
+ * @typeParam T - Root state.
+ * @param store - The store to watch.
+ * @returns A live {@link NotificationRecorder}.
+ * @category Testing
+ *
+ * @example
+ * const rec = recordNotifications(store);
+ * batch(() => {
+ *   store.setState((p) => ({ ...p, a: 1 }));
+ *   store.setState((p) => ({ ...p, b: 1 }));
+ * });
+ * rec.notifications; // 1
+ * rec.flushes; // 1
+ */
+export function recordNotifications<T>(
+  store: Store<T>
+): NotificationRecorder<T> {
+  let changes: StoreChange<T>[] = [];
+  let flushes = 0;
+  let flush = 0;
+  let counted = -1;
+  const unobserve = observeFlushes(() => flush++);
+  const unsubscribe = store.subscribe((change) => {
+    changes.push(change);
+    if (!isFlushing() || counted === flush) return;
+    counted = flush;
+    flushes++;
+  });
+
+  return {
+    get notifications() {
+      return changes.length;
+    },
+    get flushes() {
+      return flushes;
+    },
+    get changes() {
+      return changes;
+    },
+    clear() {
+      changes = [];
+      flushes = 0;
+    },
+    stop() {
+      unsubscribe();
+      unobserve();
+    },
+  };
+}
+
+const isContainer = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null;
+
+/**
+ * Dot-paths whose values differ between `prev` and `next`, descending into
+ * objects and arrays whose identity changed. `""` means the root itself.
+ *
+ * @param prev - State before.
+ * @param next - State after.
+ * @returns Changed paths, e.g. `["todos.1.done", "ui.modalOpen"]`.
+ * @category Testing
+ */
+export function changedPaths(prev: unknown, next: unknown): string[] {
+  const out: string[] = [];
+  const walk = (a: unknown, b: unknown, path: string) => {
+    if (Object.is(a, b)) return;
+    if (
+      !isContainer(a) ||
+      !isContainer(b) ||
+      Array.isArray(a) !== Array.isArray(b)
+    ) {
+      out.push(path);
+      return;
+    }
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      const child = path ? `${path}.${key}` : key;
+      if (!(key in a) || !(key in b)) out.push(child);
+      else walk(a[key], b[key], child);
+    }
+  };
+  walk(prev, next, "");
+  return out;
+}
+
+/**
+ * What an action did to a store, from {@link captureAction}.
+ * @typeParam T - Root state.
+ */
+export type ActionEffect<T> = {
+  /** State before the action. */
+  prev: T;
+  /** State after the action. */
+  next: T;
+  /** {@link changedPaths} between `prev` and `next`. */
+  changed: string[];
+  /** Notifications delivered while the action ran. */
+  notifications: number;
+  /** Store actions recorded on those notifications (slice updaters, labels). */
+  actions: StoreAction[];
+};
+
+/**
+ * Run an action and report its effect on the store. Async actions are awaited.
+ *
+ * @typeParam T - Root state.
+ * @param store - The store the action writes.
+ * @param fn - The action, e.g. `() => actions.add("x")`.
+ * @returns {@link ActionEffect} (a promise for async actions).
+ * @category Testing
+ *
+ * @example
+ * const effect = captureAction(store, () => actions.toggle("1"));
+ * effect.changed; // ["todos.0.done"]
+ * effect.notifications; // 1
+ */
+export function captureAction<T>(
+  store: Store<T>,
+  fn: () => Promise<unknown>
+): Promise<ActionEffect<T>>;
+export function captureAction<T>(
+  store: Store<T>,
+  fn: () => void
+): ActionEffect<T>;
+export function captureAction<T>(
+  store: Store<T>,
+  fn: () => unknown
+): ActionEffect<T> | Promise<ActionEffect<T>> {
+  const prev = store.getState();
+  const recorder = recordNotifications(store);
+  const done = (): ActionEffect<T> => {
+    recorder.stop();
+    const next = store.getState();
+    return {
+      prev,
+      next,
+      changed: changedPaths(prev, next),
+      notifications: recorder.notifications,
+      actions: recorder.changes.flatMap((c) => c.actions),
+    };
+  };
+
+  let result: unknown;
+  try {
+    result = fn();
+  } catch (error) {
+    recorder.stop();
+    throw error;
+  }
+  if (isThenable(result))
+    return Promise.resolve(result).then(done, (error) => {
+      recorder.stop();
+      throw error;
+    });
+  return done();
+}
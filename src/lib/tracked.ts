@@ -0,0 +1,127 @@
+import React from "react";
+import { type ReadableStore, serverSnapshot } from "./store";
+import { useIsoLayoutEffect } from "./hooks";
+
+/**
+ * What a render read from one object: the properties it accessed and whether
+ * it enumerated keys. A node without children was used as a whole (by identity).
+ */
+type Usage = { children: Map<PropertyKey, Usage>; keys: boolean };
+
+const newUsage = (): Usage => ({ children: new Map(), keys: false });
+
+function isTrackable(v: unknown): v is object {
+  if (typeof v !== "object" || v === null) return false;
+  const proto = Object.getPrototypeOf(v);
+  return Array.isArray(v) || proto === Object.prototype || proto === null;
+}
+
+function shallowCopy<V extends object>(target: V): V {
+  if (Array.isArray(target)) return target.slice() as V;
+  return Object.assign(Object.create(Object.getPrototypeOf(target)), target);
+}
+
+/** Wrap `target` so every read is recorded into `usage`. */
+function track<V extends object>(
+  target: V,
+  usage: Usage,
+  cache: WeakMap<object, object>
+): V {
+  const cached = cache.get(target);
+  if (cached) return cached as V;
+  const childUsage = (key: PropertyKey) => {
+    let child = usage.children.get(key);
+    if (!child) usage.children.set(key, (child = newUsage()));
+    return child;
+  };
+  // A proxy of a frozen object must return its exact property values, so
+  // frozen state is proxied through a shallow copy.
+  const base = Object.isFrozen(target) ? shallowCopy(target) : target;
+  const proxy = new Proxy(base, {
+    get(t, key, receiver) {
+      const value = Reflect.get(t, key, receiver);
+      if (typeof key === "symbol") return value;
+      const child = childUsage(key);
+      return isTrackable(value) ? track(value, child, cache) : value;
+    },
+    has(t, key) {
+      usage.keys = true;
+      return Reflect.has(t, key);
+    },
+    ownKeys(t) {
+      usage.keys = true;
+      return Reflect.ownKeys(t);
+    },
+  });
+  cache.set(target, proxy);
+  return proxy;
+}
+
+/**
+ * True when anything recorded in `usage` differs between `prev` and `next`.
+ * The root is never "used as a whole": a render that read nothing never changes.
+ */
+function isChanged(prev: any, next: any, usage: Usage, root = false): boolean {
+  if (Object.is(prev, next)) return false;
+  if (!isTrackable(prev) || !isTrackable(next)) return true;
+  if (!root && usage.children.size === 0 && !usage.keys) return true;
+  if (usage.keys) {
+    const a = Object.keys(prev);
+    const b = Object.keys(next);
+    if (a.length !== b.length || a.some((k, i) => k !== b[i])) return true;
+  }
+  for (const [key, child] of Array.from(usage.children)) {
+    if (isChanged((prev as any)[key], (next as any)[key], child)) return true;
+  }
+  return false;
+}
+
+/**
+ * Read store state through a tracking proxy: the component re-renders only when
+ * a path it actually read during its last render changes.
+ *
+ * Works with nested objects and arrays (`todos[i].text`, `todos.length`,
+ * `Object.keys(map)`). Only plain objects and arrays are tracked; other values
+ * (Dates, Maps, class instances) are compared by identity.
+ *
+ * @typeParam T - Root state shape.
+ * @param store - The external store instance.
+ * @returns A read-only proxy of the current state.
+ * @category Store
+ *
+ * @example
+ * function TodoText({ i }: { i: number }) {
+ *   const state = useTrackedState(store);
+ *   return <span>{state.todos[i].text}</span>; // ignores changes to other todos
+ * }
+ */
+export function useTrackedState<T extends object>(store: ReadableStore<T>): T {
+  const usage = React.useRef<Usage | null>(null);
+  const last = React.useRef<T | null>(null);
+
+  // A fresh getSnapshot per render makes React re-check the snapshot after
+  // commit, so paths first read in this render are compared right away.
+  const getSnap = () => {
+    const next = store.getState();
+    const prev = last.current;
+    if (
+      prev !== null &&
+      usage.current &&
+      !isChanged(prev, next, usage.current, true)
+    )
+      return prev;
+    last.current = next;
+    return next;
+  };
+
+  const state = React.useSyncExternalStore(store.subscribe, getSnap, () =>
+    serverSnapshot(store)
+  );
+
+  const renderUsage = newUsage();
+  useIsoLayoutEffect(() => {
+    usage.current = renderUsage;
+  });
+  React.useDebugValue(state);
+  return isTrackable(state) ? track(state, renderUsage, new WeakMap()) : state;
+}
@@ -0,0 +1,14 @@
+export {
+  act,
+  renderWithStore,
+  renderHookWithStore,
+  recordNotifications,
+  captureAction,
+  changedPaths,
+  type RenderWithStoreOptions,
+  type RenderWithStoreResult,
+  type RenderHookWithStoreResult,
+  type StoreUI,
+  type NotificationRecorder,
+  type ActionEffect,
+} from "./lib/testing";
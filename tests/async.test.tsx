@@ -0,0 +1,202 @@
+import React from "react";
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+
+import {
+  createAsyncAction,
+  createContextSync,
+  makeStore,
+  useAsyncStatus,
+} from "../src";
+
+type AppState = { results: string[] };
+
+function deferred<V>() {
+  let resolve!: (v: V) => void;
+  let reject!: (e: unknown) => void;
+  const promise = new Promise<V>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+describe("@acoolhq/react-tiny-store - createAsyncAction", () => {
+  it("records pending, success and error status per key", async () => {
+    const store = makeStore<AppState>({ results: [] });
+    const gate = deferred<string[]>();
+    const search = createAsyncAction(store, "search", async (api) => {
+      const results = await gate.promise;
+      api.set({ results });
+      return results;
+    });
+
+    const { result } = renderHook(() => useAsyncStatus(store, "search"));
+    expect(result.current).toEqual({ status: "idle" });
+
+    let call!: Promise<string[]>;
+    act(() => {
+      call = search();
+    });
+    expect(result.current.status).toBe("pending");
+
+    await act(async () => {
+      gate.resolve(["a"]);
+      await call;
+    });
+    expect(result.current).toEqual({ status: "success", data: ["a"] });
+    expect(store.getState().results).toEqual(["a"]);
+
+    const boom = new Error("boom");
+    const failing = createAsyncAction(store, "search", async () => {
+      throw boom;
+    });
+    await act(async () => {
+      await expect(failing()).rejects.toBe(boom);
+    });
+    expect(result.current).toEqual({
+      status: "error",
+      data: ["a"],
+      error: boom,
+    });
+  });
+
+  it("takeLatest aborts superseded calls and ignores their results", async () => {
+    const store = makeStore<AppState>({ results: [] });
+    const gates = [deferred<string>(), deferred<string>()];
+    const signals: AbortSignal[] = [];
+    let n = 0;
+    const load = createAsyncAction(store, "load", async (api) => {
+      signals.push(api.signal);
+      return gates[n++].promise;
+    });
+    const { result } = renderHook(() => useAsyncStatus(store, "load"));
+
+    let first!: Promise<string>;
+    let second!: Promise<string>;
+    await act(async () => {
+      first = load();
+      second = load();
+      await flush();
+    });
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+
+    await act(async () => {
+      gates[1].resolve("second");
+      await second;
+      gates[0].resolve("first");
+      await first;
+    });
+
+    expect(result.current).toEqual({ status: "success", data: "second" });
+  });
+
+  it("takeFirst returns the running call", async () => {
+    const store = makeStore<AppState>({ results: [] });
+    const fn = vi.fn(async () => "once");
+    const load = createAsyncAction(store, "load", fn, { mode: "takeFirst" });
+
+    const a = load();
+    const b = load();
+
+    expect(b).toBe(a);
+    await a;
+    expect(fn).toHaveBeenCalledTimes(1);
+    await load();
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("takeFirst starts a new call after abort()", async () => {
+    const store = makeStore<AppState>({ results: [] });
+    const fn = vi.fn(
+      (api: { signal: AbortSignal }) =>
+        new Promise<string>((_, reject) =>
+          api.signal.addEventListener("abort", () => reject(api.signal.reason))
+        )
+    );
+    const load = createAsyncAction(store, "load", fn, { mode: "takeFirst" });
+
+    const first = load();
+    first.catch(() => {});
+    await flush();
+    load.abort();
+    const second = load();
+    second.catch(() => {});
+    await flush();
+
+    expect(second).not.toBe(first);
+    expect(fn).toHaveBeenCalledTimes(2);
+    load.abort();
+  });
+
+  it("queue runs calls one after another in order", async () => {
+    const store = makeStore<AppState>({ results: [] });
+    const log: string[] = [];
+    const save = createAsyncAction(
+      store,
+      "save",
+      async (api, text: string) => {
+        log.push(`start ${text}`);
+        await flush();
+        api.set((p) => ({ results: [...p.results, text] }));
+        log.push(`end ${text}`);
+      },
+      { mode: "queue" }
+    );
+
+    await Promise.all([save("a"), save("b")]);
+
+    expect(log).toEqual(["start a", "end a", "start b", "end b"]);
+    expect(store.getState().results).toEqual(["a", "b"]);
+  });
+
+  it("abort() cancels the running call and resets status to idle", async () => {
+    const store = makeStore<AppState>({ results: [] });
+    let signal: AbortSignal | undefined;
+    const load = createAsyncAction(store, "load", (api) => {
+      signal = api.signal;
+      return new Promise<void>((_, reject) =>
+        api.signal.addEventListener("abort", () => reject(api.signal.reason))
+      );
+    });
+
+    const call = load();
+    await flush();
+    load.abort();
+
+    await expect(call).rejects.toMatchObject({ name: "AbortError" });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("has context variants", async () => {
+    const Tiny = createContextSync<AppState>();
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <Tiny.Provider initial={{ results: [] }}>{children}</Tiny.Provider>
+    );
+
+    const { result } = renderHook(
+      () => {
+        const load = Tiny.useAsyncAction("load", async (api, q: string) => {
+          api.set({ results: [q] });
+          return q;
+        });
+        return {
+          load,
+          status: Tiny.useAsyncStatus<string>("load"),
+          results: Tiny.useSelector((s) => s.results),
+        };
+      },
+      { wrapper }
+    );
+
+    await act(async () => {
+      await result.current.load("x");
+    });
+    await waitFor(() => expect(result.current.status.status).toBe("success"));
+    expect(result.current.status.data).toBe("x");
+    expect(result.current.results).toEqual(["x"]);
+  });
+});
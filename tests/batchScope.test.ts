@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { batch, createBatchScope, derive, makeStore } from "../src";
+
+type Pair = { a: number; b: number };
+
+const pair = (): Pair => ({ a: 0, b: 0 });
+
+describe("@acoolhq/react-tiny-store - batch scopes", () => {
+  it("scope.batch notifies attached stores once", () => {
+    const scope = createBatchScope();
+    const store = makeStore(pair(), { batch: scope });
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    scope.batch(() => {
+      store.setState((p) => ({ ...p, a: 1 }));
+      store.setState((p) => ({ ...p, b: 1 }));
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("scopes do not defer each other or the global batch", () => {
+    const scopeA = createBatchScope();
+    const scopeB = createBatchScope();
+    const a = makeStore(pair(), { batch: scopeA });
+    const b = makeStore(pair(), { batch: scopeB });
+    const global = makeStore(pair());
+    const onA = vi.fn();
+    const onB = vi.fn();
+    const onGlobal = vi.fn();
+    a.subscribe(onA);
+    b.subscribe(onB);
+    global.subscribe(onGlobal);
+
+    scopeA.batch(() => {
+      b.setState((p) => ({ ...p, a: 1 }));
+      global.setState((p) => ({ ...p, a: 1 }));
+      expect(onB).toHaveBeenCalledTimes(1);
+      expect(onGlobal).toHaveBeenCalledTimes(1);
+    });
+
+    batch(() => {
+      a.setState((p) => ({ ...p, a: 1 }));
+      expect(onA).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it("nested scopes flush when their own outermost batch ends", () => {
+    const outer = createBatchScope();
+    const inner = createBatchScope();
+    const a = makeStore(pair(), { batch: outer });
+    const b = makeStore(pair(), { batch: inner });
+    const log: string[] = [];
+    a.subscribe(() => log.push("a"));
+    b.subscribe(() => log.push("b"));
+
+    outer.batch(() => {
+      a.setState((p) => ({ ...p, a: 1 }));
+      inner.batch(() => {
+        b.setState((p) => ({ ...p, a: 1 }));
+        a.setState((p) => ({ ...p, b: 1 }));
+        inner.batch(() => b.setState((p) => ({ ...p, b: 1 })));
+        expect(log).toEqual([]);
+      });
+      expect(log).toEqual(["b"]);
+    });
+
+    expect(log).toEqual(["b", "a"]);
+  });
+
+  it("derived stores are de-duplicated within a scope's flush", () => {
+    const scope = createBatchScope();
+    const x = makeStore(1, { batch: scope });
+    const y = makeStore(2, { batch: scope });
+    const sum = derive([x, y], (a, b) => a + b);
+    const listener = vi.fn();
+    sum.subscribe(listener);
+
+    scope.batch(() => {
+      x.setState(10);
+      y.setState(20);
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(sum.getState()).toBe(30);
+  });
+
+  it("rejects scopes not created by createBatchScope", () => {
+    expect(() => makeStore(pair(), { batch: { batch: (fn) => fn() } })).toThrow(
+      /createBatchScope/
+    );
+  });
+});
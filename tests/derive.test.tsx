@@ -0,0 +1,117 @@
+import React from "react";
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import { batch, derive, makeStore, useStoreSelector } from "../src";
+
+type Cart = { items: { sku: string; qty: number }[]; note: string };
+type Pricing = { prices: Record<string, number> };
+
+function setup() {
+  const cart = makeStore<Cart>({ items: [{ sku: "a", qty: 2 }], note: "" });
+  const pricing = makeStore<Pricing>({ prices: { a: 5, b: 1 } });
+  const compute = vi.fn((c: Cart, p: Pricing) =>
+    c.items.reduce((sum, i) => sum + i.qty * p.prices[i.sku], 0)
+  );
+  const total = derive([cart, pricing], compute);
+  return { cart, pricing, compute, total };
+}
+
+describe("@acoolhq/react-tiny-store - derive", () => {
+  it("computes from several stores and recomputes only when inputs change", () => {
+    const { pricing, compute, total } = setup();
+
+    expect(total.getState()).toBe(10);
+    expect(total.getState()).toBe(10);
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    pricing.setState({ prices: { a: 3, b: 1 } });
+    expect(total.getState()).toBe(6);
+    expect(compute).toHaveBeenCalledTimes(2);
+
+    expect(total.getInitialState()).toBe(10);
+  });
+
+  it("returns the same initial and server snapshot while inputs are unchanged", () => {
+    const { cart, pricing } = setup();
+    const summary = derive([cart, pricing], (c, p) => ({
+      lines: c.items.length,
+      skus: Object.keys(p.prices).length,
+    }));
+
+    expect(summary.getServerState!()).toBe(summary.getServerState!());
+    expect(summary.getInitialState()).toBe(summary.getInitialState());
+    expect(summary.getServerState!()).toEqual({ lines: 1, skus: 2 });
+  });
+
+  it("notifies at most once per batch and only when the result changes", () => {
+    const { cart, pricing, total } = setup();
+    const listener = vi.fn();
+    total.subscribe(listener);
+
+    batch(() => {
+      cart.setState((p) => ({
+        ...p,
+        items: [...p.items, { sku: "b", qty: 1 }],
+      }));
+      pricing.setState((p) => ({ prices: { ...p.prices, b: 2 } }));
+    });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(total.getState()).toBe(12);
+
+    cart.setState((p) => ({ ...p, note: "gift" })); // same total
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the previous value when isEqual says so", () => {
+    const list = makeStore({ ids: [1, 2], tick: 0 });
+    const sorted = derive(
+      [list],
+      (l) => [...l.ids].sort(),
+      (a, b) => a.length === b.length && a.every((x, i) => x === b[i])
+    );
+    const first = sorted.getState();
+
+    list.setState((p) => ({ ...p, ids: [2, 1] }));
+
+    expect(sorted.getState()).toBe(first);
+  });
+
+  it("unsubscribes from inputs when nothing listens", () => {
+    const { cart, compute, total } = setup();
+    const spy = vi.spyOn(cart, "subscribe");
+
+    const off = total.subscribe(() => {});
+    expect(spy).toHaveBeenCalledTimes(1);
+    off();
+
+    compute.mockClear();
+    cart.setState((p) => ({ ...p, items: [] }));
+    expect(compute).not.toHaveBeenCalled();
+    expect(total.getState()).toBe(0);
+  });
+
+  it("works with useStoreSelector and renders once per batch", () => {
+    const { cart, pricing, total } = setup();
+    const renders: number[] = [];
+
+    const { result } = renderHook(() => {
+      const value = useStoreSelector(total, (t) => t);
+      React.useEffect(() => {
+        renders.push(value);
+      });
+      return value;
+    });
+    expect(result.current).toBe(10);
+
+    act(() => {
+      batch(() => {
+        cart.setState((p) => ({ ...p, items: [{ sku: "a", qty: 3 }] }));
+        pricing.setState({ prices: { a: 2, b: 1 } });
+      });
+    });
+
+    expect(result.current).toBe(6);
+    expect(renders).toEqual([10, 6]);
+  });
+});
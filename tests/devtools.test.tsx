@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import {
+  connectDevtools,
+  createStoreSlice,
+  makeStore,
+  type DevtoolsMessage,
+} from "../src";
+
+type Counter = { count: number };
+
+function fakeExtension() {
+  let listener: ((m: DevtoolsMessage) => void) | undefined;
+  const conn = {
+    init: vi.fn(),
+    send: vi.fn(),
+    subscribe: vi.fn((l: (m: DevtoolsMessage) => void) => {
+      listener = l;
+      return () => {
+        listener = undefined;
+      };
+    }),
+  };
+  const ext = { connect: vi.fn(() => conn) };
+  const dispatch = (type: string, state?: unknown) =>
+    listener?.({
+      type: "DISPATCH",
+      payload: { type },
+      state: state === undefined ? undefined : JSON.stringify(state),
+    });
+  return { ext, conn, dispatch };
+}
+
+describe("@acoolhq/react-tiny-store - devtools", () => {
+  afterEach(() => {
+    delete (window as any).__REDUX_DEVTOOLS_EXTENSION__;
+  });
+
+  it("does nothing when the extension is missing", () => {
+    const store = makeStore<Counter>({ count: 0 });
+    const disconnect = connectDevtools(store, { name: "counter" });
+
+    store.setState({ count: 1 });
+
+    expect(store.getState().count).toBe(1);
+    expect(() => disconnect()).not.toThrow();
+  });
+
+  it("connects to window.__REDUX_DEVTOOLS_EXTENSION__ and reports writes", () => {
+    const { ext, conn } = fakeExtension();
+    (window as any).__REDUX_DEVTOOLS_EXTENSION__ = ext;
+    const store = makeStore<Counter>({ count: 0 });
+
+    connectDevtools(store, { name: "counter" });
+    expect(ext.connect).toHaveBeenCalledWith({ name: "counter" });
+    expect(conn.init).toHaveBeenCalledWith({ count: 0 });
+
+    store.setState({ count: 1 });
+    store.replace({ count: 2 });
+    store.reset();
+
+    expect(conn.send.mock.calls).toEqual([
+      [{ type: "setState" }, { count: 1 }],
+      [{ type: "replace" }, { count: 2 }],
+      [{ type: "reset" }, { count: 0 }],
+    ]);
+  });
+
+  it("names actions after createStoreSlice keys", () => {
+    const { ext, conn } = fakeExtension();
+    const store = makeStore<Counter>({ count: 0 });
+    connectDevtools(store, { extension: ext });
+
+    const useCounter = createStoreSlice(store, (s) => s.count, {
+      addBy(root, n: number) {
+        return { count: root.count + n };
+      },
+    });
+    const { result } = renderHook(() => useCounter());
+
+    act(() => {
+      result.current.actions.addBy(3);
+    });
+
+    expect(conn.send).toHaveBeenCalledWith(
+      { type: "addBy", args: [3] },
+      { count: 3 }
+    );
+  });
+
+  it("handles JUMP_TO_STATE, RESET, COMMIT and ROLLBACK without echoing", () => {
+    const { ext, conn, dispatch } = fakeExtension();
+    const store = makeStore<Counter>({ count: 0 });
+    connectDevtools(store, { extension: ext });
+
+    store.setState({ count: 5 });
+    conn.send.mockClear();
+    conn.init.mockClear();
+
+    dispatch("JUMP_TO_STATE", { count: 2 });
+    expect(store.getState()).toEqual({ count: 2 });
+
+    dispatch("RESET");
+    expect(store.getState()).toEqual({ count: 0 });
+    expect(conn.init).toHaveBeenLastCalledWith({ count: 0 });
+
+    store.setState({ count: 7 });
+    dispatch("COMMIT");
+    expect(conn.init).toHaveBeenLastCalledWith({ count: 7 });
+
+    dispatch("ROLLBACK", { count: 7 });
+    expect(store.getState()).toEqual({ count: 7 });
+
+    expect(conn.send).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops reporting after disconnect", () => {
+    const { ext, conn, dispatch } = fakeExtension();
+    const store = makeStore<Counter>({ count: 0 });
+    const disconnect = connectDevtools(store, { extension: ext });
+
+    disconnect();
+    store.setState({ count: 1 });
+    dispatch("JUMP_TO_STATE", { count: 9 });
+
+    expect(conn.send).not.toHaveBeenCalled();
+    expect(store.getState().count).toBe(1);
+  });
+});
@@ -0,0 +1,161 @@
+import React from "react";
+import { describe, it, expect } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import {
+  bindStoreActions,
+  createContextSync,
+  createStoreSlice,
+  makeStore,
+  produce,
+  useStoreSelector,
+} from "../src";
+
+type Todo = { id: string; text: string; done?: boolean };
+type AppState = {
+  todos: Todo[];
+  ui: { modalOpen: boolean };
+  settings: { theme: string };
+};
+
+const initial = (): AppState => ({
+  todos: [
+    { id: "1", text: "A" },
+    { id: "2", text: "B" },
+  ],
+  ui: { modalOpen: false },
+  settings: { theme: "light" },
+});
+
+describe("@acoolhq/react-tiny-store - produce", () => {
+  it("copies only the touched branches and never mutates the base", () => {
+    const base = initial();
+    const next = produce(base, (d) => {
+      d.ui.modalOpen = true;
+      d.todos[1].done = true;
+    });
+
+    expect(next).toEqual({
+      ...base,
+      ui: { modalOpen: true },
+      todos: [base.todos[0], { id: "2", text: "B", done: true }],
+    });
+    expect(base.ui.modalOpen).toBe(false);
+    expect(next.settings).toBe(base.settings);
+    expect(next.todos[0]).toBe(base.todos[0]);
+    expect(next.todos[1]).not.toBe(base.todos[1]);
+  });
+
+  it("returns the base when nothing changed", () => {
+    const base = initial();
+    expect(produce(base, (d) => void d.todos.map((t) => t.text))).toBe(base);
+    expect(produce(base, (d) => void (d.ui.modalOpen = false))).toBe(base);
+  });
+
+  it("supports array methods, deletes and re-used drafts", () => {
+    const base = initial();
+    const next = produce(base, (d) => {
+      d.todos.push({ id: "3", text: "C" });
+      d.todos = d.todos.filter((t) => t.id !== "1");
+      delete (d.ui as Partial<AppState["ui"]>).modalOpen;
+    });
+
+    expect(next.todos.map((t) => t.id)).toEqual(["2", "3"]);
+    expect(next.todos[0]).toBe(base.todos[1]);
+    expect(next.ui).toEqual({});
+  });
+
+  it("accepts a returned value instead of mutations", () => {
+    const base = initial();
+    const next = produce(base, (d) => ({ ...d, todos: [] }));
+
+    expect(next.todos).toEqual([]);
+    expect(next.settings).toBe(base.settings);
+  });
+
+  it("revokes drafts after the recipe", () => {
+    let leaked: AppState | undefined;
+    produce(initial(), (d) => {
+      leaked = d;
+    });
+    expect(() => leaked!.ui).toThrow();
+  });
+});
+
+describe("@acoolhq/react-tiny-store - draft updaters", () => {
+  it("createStoreSlice({ draft: true }) keeps unchanged branches stable", () => {
+    const store = makeStore(initial());
+    const useUI = createStoreSlice(
+      store,
+      (s) => s.ui.modalOpen,
+      {
+        set(draft, v: boolean) {
+          draft.ui.modalOpen = v;
+        },
+      },
+      { draft: true }
+    );
+    let todoRenders = 0;
+
+    const { result } = renderHook(() => {
+      const todos = useStoreSelector(store, (s) => s.todos);
+      React.useEffect(() => {
+        todoRenders++;
+      }, [todos]);
+      return useUI();
+    });
+
+    act(() => {
+      result.current.actions.set(true);
+    });
+
+    expect(result.current.state).toBe(true);
+    expect(store.getState().ui.modalOpen).toBe(true);
+    expect(todoRenders).toBe(1);
+  });
+
+  it("api.update mutates a draft in controllers", () => {
+    const store = makeStore(initial());
+    const useActions = bindStoreActions(store, (api) => ({
+      rename(id: string, text: string) {
+        api.update((d) => {
+          const todo = d.todos.find((t) => t.id === id);
+          if (todo) todo.text = text;
+        });
+      },
+    }));
+    const before = store.getState();
+
+    const { result } = renderHook(() => useActions());
+    act(() => {
+      result.current.rename("2", "B2");
+    });
+
+    expect(store.getState().todos[1].text).toBe("B2");
+    expect(store.getState().todos[0]).toBe(before.todos[0]);
+    expect(store.getState().settings).toBe(before.settings);
+  });
+
+  it("context createSlice accepts { draft: true }", () => {
+    const Tiny = createContextSync<AppState>();
+    const useTodos = Tiny.createSlice(
+      (s) => s.todos,
+      {
+        add(draft, todo: Todo) {
+          draft.todos.unshift(todo);
+        },
+      },
+      { draft: true }
+    );
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <Tiny.Provider initial={initial()}>{children}</Tiny.Provider>
+    );
+
+    const { result } = renderHook(() => useTodos(), { wrapper });
+    act(() => {
+      result.current.actions.add({ id: "0", text: "Z" });
+    });
+
+    expect(result.current.state.map((t) => t.id)).toEqual(["0", "1", "2"]);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import {
+  createEntityAdapter,
+  createStoreSlice,
+  makeStore,
+  useStoreSelector,
+  type EntityState,
+} from "../src";
+
+type Todo = { id: string; text: string; done?: boolean };
+type AppState = { todos: EntityState<Todo, string>; filter: string };
+
+const adapter = createEntityAdapter<Todo, string>();
+const { selectAll, selectById, selectTotal, selectIds } = adapter.getSelectors(
+  (s: AppState) => s.todos
+);
+
+const initial = (): AppState => ({
+  todos: adapter.getInitialState([
+    { id: "1", text: "A" },
+    { id: "2", text: "B" },
+  ]),
+  filter: "",
+});
+
+describe("@acoolhq/react-tiny-store - createEntityAdapter", () => {
+  it("updates ids and entities without touching unrelated entities", () => {
+    let state = adapter.getInitialState();
+    state = adapter.addMany(state, [
+      { id: "1", text: "A" },
+      { id: "2", text: "B" },
+    ]);
+    const before = state;
+
+    expect(adapter.addOne(state, { id: "1", text: "dup" })).toBe(state);
+    state = adapter.updateOne(state, { id: "2", changes: { done: true } });
+    expect(state.entities["2"]).toEqual({ id: "2", text: "B", done: true });
+    expect(state.entities["1"]).toBe(before.entities["1"]);
+    expect(state.ids).toBe(before.ids);
+
+    expect(adapter.updateOne(state, { id: "2", changes: { done: true } })).toBe(
+      state
+    );
+    expect(adapter.updateOne(state, { id: "9", changes: {} })).toBe(state);
+    expect(adapter.removeOne(state, "9")).toBe(state);
+
+    state = adapter.upsertOne(state, { id: "3", text: "C" });
+    state = adapter.upsertOne(state, { id: "1", text: "A2" });
+    state = adapter.removeOne(state, "2");
+    expect(state.ids).toEqual(["1", "3"]);
+    expect(state.entities["1"].text).toBe("A2");
+
+    state = adapter.updateOne(state, { id: "3", changes: { id: "4" } });
+    expect(state.ids).toEqual(["1", "4"]);
+    expect(state.entities).not.toHaveProperty("3");
+
+    state = adapter.setAll(state, [{ id: "x", text: "X" }]);
+    expect(state).toEqual({
+      ids: ["x"],
+      entities: { x: { id: "x", text: "X" } },
+    });
+  });
+
+  it("updateOne renaming onto an existing id replaces that entity", () => {
+    let state = adapter.getInitialState([
+      { id: "a", text: "A" },
+      { id: "b", text: "B" },
+      { id: "c", text: "C" },
+    ]);
+    state = adapter.updateOne(state, { id: "c", changes: { id: "a" } });
+    expect(state.ids).toEqual(["b", "a"]);
+    expect(state.entities).toEqual({
+      a: { id: "a", text: "C" },
+      b: { id: "b", text: "B" },
+    });
+
+    const sorted = createEntityAdapter<Todo, string>({
+      sortComparer: (x, y) => x.text.localeCompare(y.text),
+    });
+    let s2 = sorted.getInitialState([
+      { id: "a", text: "A" },
+      { id: "b", text: "B" },
+    ]);
+    s2 = sorted.updateOne(s2, { id: "a", changes: { id: "b" } });
+    expect(s2).toEqual({ ids: ["b"], entities: { b: { id: "b", text: "A" } } });
+  });
+
+  it("keeps ids sorted with sortComparer and a custom selectId", () => {
+    const byText = createEntityAdapter<{ key: number; text: string }, number>({
+      selectId: (e) => e.key,
+      sortComparer: (a, b) => a.text.localeCompare(b.text),
+    });
+    let state = byText.getInitialState([
+      { key: 1, text: "c" },
+      { key: 2, text: "a" },
+    ]);
+    expect(state.ids).toEqual([2, 1]);
+
+    state = byText.addOne(state, { key: 3, text: "b" });
+    expect(state.ids).toEqual([2, 3, 1]);
+
+    state = byText.updateOne(state, { id: 2, changes: { text: "z" } });
+    expect(state.ids).toEqual([3, 1, 2]);
+
+    const same = byText.updateOne(state, { id: 1, changes: { text: "cc" } });
+    expect(same.ids).toBe(state.ids);
+
+    state = byText.addMany(state, [
+      { key: 4, text: "0" },
+      { key: 5, text: "d" },
+    ]);
+    expect(
+      byText
+        .getSelectors()
+        .selectAll(state)
+        .map((e) => e.text)
+    ).toEqual(["0", "b", "c", "d", "z"]);
+  });
+
+  it("plugs into createStoreSlice through updatersFor", () => {
+    const store = makeStore(initial());
+    const useTodos = createStoreSlice(
+      store,
+      selectIds,
+      adapter.updatersFor(
+        (s: AppState) => s.todos,
+        (s, todos) => ({ ...s, todos })
+      )
+    );
+
+    const { result } = renderHook(() => useTodos());
+    act(() => result.current.actions.addOne({ id: "3", text: "C" }));
+    expect(result.current.state).toEqual(["1", "2", "3"]);
+
+    const before = store.getState();
+    act(() => result.current.actions.removeOne("9"));
+    expect(store.getState()).toBe(before);
+
+    act(() =>
+      result.current.actions.updateOne({ id: "1", changes: { done: true } })
+    );
+    expect(store.getState().todos.entities["1"].done).toBe(true);
+    expect(store.getState().filter).toBe("");
+  });
+
+  it("selectors are memoized and per-row selects skip sibling updates", () => {
+    const store = makeStore(initial());
+    const first = selectAll(store.getState());
+    store.setState((p) => ({ ...p, filter: "x" }));
+    expect(selectAll(store.getState())).toBe(first);
+    expect(selectTotal(store.getState())).toBe(2);
+
+    let rowRenders = 0;
+    const { result } = renderHook(() => {
+      rowRenders++;
+      return useStoreSelector(store, (s) => selectById(s, "1"));
+    });
+
+    act(() =>
+      store.setState((p) => ({
+        ...p,
+        todos: adapter.updateOne(p.todos, { id: "2", changes: { done: true } }),
+      }))
+    );
+    expect(rowRenders).toBe(1);
+
+    act(() =>
+      store.setState((p) => ({
+        ...p,
+        todos: adapter.updateOne(p.todos, { id: "1", changes: { text: "A2" } }),
+      }))
+    );
+    expect(result.current?.text).toBe("A2");
+    expect(rowRenders).toBe(2);
+    expect(selectById(store.getState(), "missing")).toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+import React from "react";
+import { describe, it, expect } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import {
+  arrayShallow,
+  createContextSync,
+  deepEqual,
+  makeStore,
+  shallow,
+  useShallowStoreSelector,
+  useStoreSelector,
+} from "../src";
+
+type Todo = { id: string; text: string; done: boolean };
+type AppState = { todo: Todo; tick: number; tags: string[] };
+
+const initial = (): AppState => ({
+  todo: { id: "1", text: "A", done: false },
+  tick: 0,
+  tags: ["a", "b"],
+});
+
+describe("@acoolhq/react-tiny-store - equality helpers", () => {
+  it("shallow compares one level of objects, arrays, Maps and Sets", () => {
+    const inner = { x: 1 };
+    expect(shallow({ a: 1, b: inner }, { a: 1, b: inner })).toBe(true);
+    expect(shallow({ a: 1, b: { x: 1 } }, { a: 1, b: { x: 1 } })).toBe(false);
+    expect(shallow({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(shallow([1, inner], [1, inner])).toBe(true);
+    expect(shallow(new Map([["k", inner]]), new Map([["k", inner]]))).toBe(
+      true
+    );
+    expect(shallow(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+    expect(shallow(new Set([1]), new Set([2]))).toBe(false);
+    expect(shallow([1], { 0: 1 })).toBe(false);
+    expect(shallow(null, {})).toBe(false);
+  });
+
+  it("arrayShallow compares items by identity", () => {
+    const t = { id: "1" };
+    expect(arrayShallow([t, 2], [t, 2])).toBe(true);
+    expect(arrayShallow([t], [{ id: "1" }])).toBe(false);
+    expect(arrayShallow([1, 2], [1])).toBe(false);
+  });
+
+  it("deepEqual handles nested structures, Map, Set, Date and cycles", () => {
+    expect(
+      deepEqual(
+        { a: [1, { b: new Date(5) }], m: new Map([["k", { v: 1 }]]) },
+        { a: [1, { b: new Date(5) }], m: new Map([["k", { v: 1 }]]) }
+      )
+    ).toBe(true);
+    expect(deepEqual(new Date(1), new Date(2))).toBe(false);
+    expect(
+      deepEqual(new Set([{ a: 1 }, { a: 2 }]), new Set([{ a: 2 }, { a: 1 }]))
+    ).toBe(true);
+    expect(deepEqual(new Set([{ a: 1 }]), new Set([{ a: 3 }]))).toBe(false);
+    expect(deepEqual({ a: undefined }, {})).toBe(false);
+    expect(deepEqual(NaN, NaN)).toBe(true);
+
+    type Node = { id: number; self?: Node };
+    const a: Node = { id: 1 };
+    a.self = a;
+    const b: Node = { id: 1 };
+    b.self = b;
+    expect(deepEqual(a, b)).toBe(true);
+    const c: Node = { id: 2 };
+    c.self = c;
+    expect(deepEqual(a, c)).toBe(false);
+  });
+
+  it("useShallowStoreSelector re-renders less than the Object.is default", () => {
+    const store = makeStore(initial());
+    let plainRenders = 0;
+    let shallowRenders = 0;
+
+    renderHook(() => {
+      plainRenders++;
+      return useStoreSelector(store, (s) => s.todo);
+    });
+    renderHook(() => {
+      shallowRenders++;
+      return useShallowStoreSelector(store, (s) => s.todo);
+    });
+
+    // Rebuilt with the same contents, e.g. after a refetch.
+    act(() => store.setState((p) => ({ ...p, todo: { ...p.todo } })));
+    act(() => store.setState((p) => ({ ...p, todo: { ...p.todo } })));
+
+    expect(plainRenders).toBe(3);
+    expect(shallowRenders).toBe(1);
+
+    act(() =>
+      store.setState((p) => ({ ...p, todo: { ...p.todo, text: "B" } }))
+    );
+    expect(shallowRenders).toBe(2);
+  });
+
+  it("shallow keeps a selection built from stable parts", () => {
+    const store = makeStore(initial());
+    let renders = 0;
+    renderHook(() => {
+      renders++;
+      return useShallowStoreSelector(store, (s) => ({
+        text: s.todo.text,
+        tags: s.tags,
+      }));
+    });
+
+    act(() => store.setState((p) => ({ ...p, tick: 1 })));
+    expect(renders).toBe(1);
+  });
+
+  it("deepEqual keeps a rebuilt selection stable", () => {
+    const store = makeStore(initial());
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return useStoreSelector(store, (s) => [...s.tags].sort(), deepEqual);
+    });
+    const first = result.current;
+
+    act(() => store.setState((p) => ({ ...p, tags: ["b", "a"] })));
+    expect(result.current).toBe(first);
+    expect(renders).toBe(1);
+  });
+
+  it("Tiny.useShallowSelector uses shallow equality", () => {
+    const Tiny = createContextSync<AppState>();
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <Tiny.Provider initial={initial()}>{children}</Tiny.Provider>
+    );
+    let renders = 0;
+
+    const { result } = renderHook(
+      () => {
+        renders++;
+        return {
+          picked: Tiny.useShallowSelector((s) => ({ done: s.todo.done })),
+          actions: Tiny.useActions((api) => ({
+            tick: () => api.set((p) => ({ ...p, tick: p.tick + 1 })),
+          })),
+        };
+      },
+      { wrapper }
+    );
+
+    act(() => result.current.actions.tick());
+    expect(renders).toBe(1);
+    expect(result.current.picked).toEqual({ done: false });
+  });
+});
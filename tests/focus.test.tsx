@@ -0,0 +1,135 @@
+import React from "react";
+import { describe, it, expect, vi, expectTypeOf } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import {
+  createContextSync,
+  focus,
+  focusPath,
+  makeStore,
+  useStoreSelector,
+  type Path,
+  type Store,
+} from "../src";
+
+type Todo = { id: string; text: string };
+type AppState = {
+  todos: Todo[];
+  ui: { modalOpen: boolean; panel: { width: number } };
+  tick: number;
+};
+
+const initial = (): AppState => ({
+  todos: [{ id: "1", text: "A" }],
+  ui: { modalOpen: false, panel: { width: 200 } },
+  tick: 0,
+});
+
+describe("@acoolhq/react-tiny-store - focus", () => {
+  it("reads and writes a sub-tree through the parent", () => {
+    const store = makeStore(initial());
+    const ui = focus(
+      store,
+      (s) => s.ui,
+      (s, ui) => ({ ...s, ui })
+    );
+
+    ui.setState((p) => ({ ...p, modalOpen: true }));
+
+    expect(ui.getState().modalOpen).toBe(true);
+    expect(store.getState().ui.modalOpen).toBe(true);
+    expect(ui.getInitialState().modalOpen).toBe(false);
+
+    ui.reset();
+    expect(store.getState().ui.modalOpen).toBe(false);
+  });
+
+  it("notifies only when the focused value changes", () => {
+    const store = makeStore(initial());
+    const width = focusPath(store, "ui.panel.width");
+    const listener = vi.fn();
+    width.subscribe(listener);
+
+    store.setState((p) => ({ ...p, tick: 1 }));
+    store.setState((p) => ({ ...p, ui: { ...p.ui, modalOpen: true } }));
+    expect(listener).not.toHaveBeenCalled();
+
+    width.setState((w) => w + 10);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getState().ui.panel.width).toBe(210);
+  });
+
+  it("focusPath writes with structural sharing", () => {
+    const store = makeStore(initial());
+    const before = store.getState();
+
+    focusPath(store, "todos.0.text").setState("A2");
+
+    const after = store.getState();
+    expect(after.todos[0]).toEqual({ id: "1", text: "A2" });
+    expect(after.ui).toBe(before.ui);
+
+    focusPath(store, "tick").replace(0);
+    expect(store.getState()).toBe(after);
+  });
+
+  it("type-checks paths against the state", () => {
+    const store = makeStore(initial());
+    expectTypeOf(focusPath(store, "ui.modalOpen")).toEqualTypeOf<
+      Store<boolean>
+    >();
+    expectTypeOf(focusPath(store, "todos.0")).toEqualTypeOf<Store<Todo>>();
+    expectTypeOf<"ui.modalOpen">().toMatchTypeOf<Path<AppState>>();
+
+    // @ts-expect-error typo in path
+    const typo = () => focusPath(store, "ui.modalOpn");
+    expect(typo).toBeTypeOf("function");
+  });
+
+  it("narrowed stores work with useStoreSelector", () => {
+    const store = makeStore(initial());
+    const modal = focusPath(store, "ui.modalOpen");
+    let renders = 0;
+
+    const { result } = renderHook(() => {
+      renders++;
+      return useStoreSelector(modal, (open) => open);
+    });
+
+    act(() => store.setState((p) => ({ ...p, tick: 2 })));
+    expect(renders).toBe(1);
+
+    act(() => modal.setState(true));
+    expect(result.current).toBe(true);
+    expect(renders).toBe(2);
+  });
+
+  it("createContextSync exposes useFocusPath for child components", () => {
+    const Tiny = createContextSync<AppState>();
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <Tiny.Provider initial={initial()}>{children}</Tiny.Provider>
+    );
+
+    function useModal(ui: Store<AppState["ui"]>) {
+      return useStoreSelector(ui, (u) => u.modalOpen);
+    }
+
+    const { result } = renderHook(
+      () => {
+        const ui = Tiny.useFocusPath("ui");
+        return {
+          ui,
+          open: useModal(ui),
+          tick: Tiny.useSelector((s) => s.tick),
+        };
+      },
+      { wrapper }
+    );
+    const firstUi = result.current.ui;
+
+    act(() => result.current.ui.setState((u) => ({ ...u, modalOpen: true })));
+
+    expect(result.current.open).toBe(true);
+    expect(result.current.ui).toBe(firstUi);
+  });
+});
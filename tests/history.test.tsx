@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import {
+  batch,
+  createStoreSlice,
+  makeStore,
+  useHistory,
+  useStoreSelector,
+  withHistory,
+} from "../src";
+
+type Doc = { text: string; count: number; ui: { modalOpen: boolean } };
+const initial: Doc = { text: "", count: 0, ui: { modalOpen: false } };
+
+describe("@acoolhq/react-tiny-store - withHistory", () => {
+  it("undoes and redoes changes", () => {
+    const doc = withHistory(makeStore(initial));
+
+    doc.setState((p) => ({ ...p, text: "a" }));
+    doc.setState((p) => ({ ...p, text: "ab" }));
+    expect(doc.canUndo()).toBe(true);
+    expect(doc.canRedo()).toBe(false);
+
+    doc.undo();
+    expect(doc.getState().text).toBe("a");
+    doc.undo();
+    expect(doc.getState().text).toBe("");
+    expect(doc.canUndo()).toBe(false);
+
+    doc.redo();
+    expect(doc.getState().text).toBe("a");
+    expect(doc.canRedo()).toBe(true);
+
+    doc.setState((p) => ({ ...p, text: "new" }));
+    expect(doc.canRedo()).toBe(false);
+  });
+
+  it("records one step per batch", () => {
+    const doc = withHistory(makeStore(initial));
+
+    batch(() => {
+      doc.setState((p) => ({ ...p, text: "x" }));
+      doc.setState((p) => ({ ...p, count: 1 }));
+    });
+    doc.undo();
+
+    expect(doc.getState()).toEqual(initial);
+  });
+
+  it("keeps at most `limit` steps and honours filter", () => {
+    const doc = withHistory(makeStore(initial), {
+      limit: 2,
+      filter: (next, prev) => next.text !== prev.text,
+    });
+
+    doc.setState((p) => ({ ...p, text: "1" }));
+    doc.setState((p) => ({ ...p, text: "2" }));
+    doc.setState((p) => ({ ...p, count: 5 })); // filtered out
+    doc.setState((p) => ({ ...p, text: "3" }));
+
+    expect(doc.history.getState().past).toBe(2);
+    doc.undo();
+    doc.undo();
+    expect(doc.canUndo()).toBe(false);
+    expect(doc.getState().text).toBe("1");
+  });
+
+  it("excludes paths from history", () => {
+    const doc = withHistory(makeStore(initial), { exclude: ["ui.modalOpen"] });
+
+    doc.setState((p) => ({ ...p, text: "a" }));
+    doc.setState((p) => ({ ...p, ui: { modalOpen: true } }));
+    expect(doc.history.getState().past).toBe(1);
+
+    doc.undo();
+    expect(doc.getState()).toEqual({ ...initial, ui: { modalOpen: true } });
+  });
+
+  it("clear drops all steps", () => {
+    const doc = withHistory(makeStore(initial));
+    doc.setState((p) => ({ ...p, text: "a" }));
+    doc.undo();
+
+    doc.clear();
+    expect(doc.canUndo()).toBe(false);
+    expect(doc.canRedo()).toBe(false);
+  });
+
+  it("works with slices and drives useHistory", () => {
+    const doc = withHistory(makeStore(initial));
+    const useCount = createStoreSlice(doc, (s) => s.count, {
+      inc(root) {
+        return { ...root, count: root.count + 1 };
+      },
+    });
+
+    const { result } = renderHook(() => ({
+      slice: useCount(),
+      history: useHistory(doc),
+      count: useStoreSelector(doc, (s) => s.count),
+    }));
+    expect(result.current.history.canUndo).toBe(false);
+
+    act(() => {
+      result.current.slice.actions.inc();
+    });
+    expect(result.current.history.canUndo).toBe(true);
+
+    act(() => {
+      result.current.history.undo();
+    });
+    expect(result.current.count).toBe(0);
+    expect(result.current.history).toMatchObject({
+      canUndo: false,
+      canRedo: true,
+    });
+  });
+});
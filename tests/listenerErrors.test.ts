@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { batch, derive, makeStore, type ListenerErrorHandler } from "../src";
+
+const boom = (msg: string) => () => {
+  throw new Error(msg);
+};
+
+function catchError(fn: () => void): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error("expected fn to throw");
+}
+
+describe("@acoolhq/react-tiny-store - listener errors", () => {
+  it("runs every listener and rethrows errors as an AggregateError", () => {
+    const store = makeStore(0);
+    const after = vi.fn();
+    store.subscribe(boom("first"));
+    store.subscribe(after);
+    store.subscribe(boom("second"));
+
+    const error = catchError(() => store.setState(1));
+
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(AggregateError);
+    expect((error as AggregateError).errors.map((e) => e.message)).toEqual([
+      "first",
+      "second",
+    ]);
+    expect(store.getState()).toBe(1);
+  });
+
+  it("sends errors to onError with the store and listener", () => {
+    const onError = vi.fn<ListenerErrorHandler>();
+    const store = makeStore(0, { onError });
+    const bad = boom("bad");
+    const after = vi.fn();
+    store.subscribe(bad);
+    store.subscribe(after);
+
+    expect(() => store.setState(1)).not.toThrow();
+
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledExactlyOnceWith(expect.any(Error), {
+      store,
+      listener: bad,
+    });
+  });
+
+  it("rethrows the batch's own error first, together with listener errors", () => {
+    const store = makeStore(0);
+    const after = vi.fn();
+    store.subscribe(boom("listener"));
+    store.subscribe(after);
+    const failure = new Error("batch");
+
+    const error = catchError(() =>
+      batch(() => {
+        store.setState(1);
+        throw failure;
+      })
+    );
+
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(AggregateError);
+    expect((error as { cause?: unknown }).cause).toBe(failure);
+    expect((error as AggregateError).errors.map((e) => e.message)).toEqual([
+      "batch",
+      "listener",
+    ]);
+  });
+
+  it("rethrows the batch's own error unchanged when listeners do not throw", () => {
+    const store = makeStore(0);
+    const failure = new Error("batch");
+
+    const error = catchError(() =>
+      batch(() => {
+        store.setState(1);
+        throw failure;
+      })
+    );
+
+    expect(error).toBe(failure);
+  });
+
+  it("keeps flushing queued stores in nested batches", () => {
+    const a = makeStore(0);
+    const b = makeStore(0);
+    const c = makeStore(0);
+    const onB = vi.fn();
+    const onC = vi.fn();
+    a.subscribe(boom("a"));
+    b.subscribe(onB);
+    c.subscribe(boom("c"));
+    c.subscribe(onC);
+
+    const error = catchError(() =>
+      batch(() => {
+        a.setState(1);
+        batch(() => {
+          b.setState(1);
+          c.setState(1);
+        });
+        expect(onB).not.toHaveBeenCalled();
+      })
+    );
+
+    expect(onB).toHaveBeenCalledTimes(1);
+    expect(onC).toHaveBeenCalledTimes(1);
+    expect((error as AggregateError).errors.map((e) => e.message)).toEqual([
+      "a",
+      "c",
+    ]);
+  });
+
+  it("isolates listeners of derived stores", () => {
+    const store = makeStore(1);
+    const doubled = derive([store], (n) => n * 2);
+    const after = vi.fn();
+    doubled.subscribe(boom("derived"));
+    doubled.subscribe(after);
+
+    expect(() => store.setState(2)).toThrow(AggregateError);
+    expect(after).toHaveBeenCalledTimes(1);
+
+    expect(() => store.setState(3)).toThrow(AggregateError);
+    expect(after).toHaveBeenCalledTimes(2);
+    expect(after).toHaveBeenLastCalledWith(
+      expect.objectContaining({ prev: 4, next: 6 })
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import {
+  batch,
+  createStoreSlice,
+  derive,
+  focusPath,
+  makeStore,
+  useStoreSelector,
+  type StoreChange,
+} from "../src";
+
+type AppState = { count: number; ui: { open: boolean } };
+
+const initial = (): AppState => ({ count: 0, ui: { open: false } });
+
+describe("@acoolhq/react-tiny-store - change payloads", () => {
+  it("delivers prev, next and the write label", () => {
+    const store = makeStore(initial());
+    const listener = vi.fn<(c: StoreChange<AppState>) => void>();
+    store.subscribe(listener);
+
+    const before = store.getState();
+    store.setState((p) => ({ ...p, count: 1 }), { label: "counter/inc" });
+
+    expect(listener).toHaveBeenCalledExactlyOnceWith({
+      prev: before,
+      next: store.getState(),
+      action: { type: "counter/inc" },
+      actions: [{ type: "counter/inc" }],
+    });
+
+    store.replace(initial());
+    expect(listener.mock.lastCall?.[0].action).toBeUndefined();
+    expect(listener.mock.lastCall?.[0].actions).toEqual([]);
+  });
+
+  it("carries createStoreSlice keys and arguments", () => {
+    const store = makeStore(initial());
+    const listener = vi.fn<(c: StoreChange<AppState>) => void>();
+    store.subscribe(listener);
+    const useCount = createStoreSlice(store, (s) => s.count, {
+      add: (s, n: number) => ({ ...s, count: s.count + n }),
+    });
+
+    const { result } = renderHook(() => useCount());
+    act(() => result.current.actions.add(5));
+
+    expect(listener.mock.lastCall?.[0].action).toEqual({
+      type: "add",
+      args: [5],
+    });
+  });
+
+  it("combines the changes of a batch into one call", () => {
+    const store = makeStore(initial());
+    const listener = vi.fn<(c: StoreChange<AppState>) => void>();
+    store.subscribe(listener);
+    const before = store.getState();
+
+    batch(() => {
+      store.setState((p) => ({ ...p, count: 1 }), { label: "a" });
+      store.setState((p) => ({ ...p, count: 2 }));
+      store.setState((p) => ({ ...p, ui: { open: true } }), { label: "b" });
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const change = listener.mock.calls[0][0];
+    expect(change.prev).toBe(before);
+    expect(change.next).toEqual({ count: 2, ui: { open: true } });
+    expect(change.actions).toEqual([{ type: "a" }, { type: "b" }]);
+    expect(change.action).toEqual({ type: "b" });
+  });
+
+  it("focused and derived stores forward payloads", () => {
+    const store = makeStore(initial());
+    const open = focusPath(store, "ui.open");
+    const doubled = derive([store], (s) => s.count * 2);
+    const onOpen = vi.fn<(c: StoreChange<boolean>) => void>();
+    const onDoubled = vi.fn<(c: StoreChange<number>) => void>();
+    open.subscribe(onOpen);
+    doubled.subscribe(onDoubled);
+
+    open.setState(true, { label: "ui/open" });
+    store.setState((p) => ({ ...p, count: 3 }), { label: "count" });
+
+    expect(onOpen).toHaveBeenCalledExactlyOnceWith({
+      prev: false,
+      next: true,
+      action: { type: "ui/open" },
+      actions: [{ type: "ui/open" }],
+    });
+    expect(onDoubled).toHaveBeenCalledExactlyOnceWith({
+      prev: 0,
+      next: 6,
+      action: { type: "count" },
+      actions: [{ type: "count" }],
+    });
+  });
+
+  it("keeps zero-argument listeners and hooks working", () => {
+    const store = makeStore(initial());
+    const plain = vi.fn(() => {});
+    store.subscribe(plain);
+
+    const { result } = renderHook(() =>
+      useStoreSelector(store, (s) => s.count)
+    );
+    act(() => store.setState((p) => ({ ...p, count: 9 }), { label: "nine" }));
+
+    expect(plain).toHaveBeenCalledTimes(1);
+    expect(result.current).toBe(9);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import {
+  createStoreSlice,
+  makeStore,
+  useStoreSelector,
+  type Middleware,
+} from "../src";
+
+type Counter = { count: number };
+
+describe("@acoolhq/react-tiny-store - middleware", () => {
+  it("sees prev, next and the operation for every write", () => {
+    const seen: Array<[string, number, number]> = [];
+    const log: Middleware<Counter> = ({ op, prev, next }) => {
+      seen.push([op, prev.count, next.count]);
+      return next;
+    };
+    const store = makeStore<Counter>({ count: 0 }, { middleware: [log] });
+
+    store.setState((p) => ({ count: p.count + 1 }));
+    store.replace({ count: 5 });
+    store.reset();
+
+    expect(seen).toEqual([
+      ["setState", 0, 1],
+      ["replace", 1, 5],
+      ["reset", 5, 0],
+    ]);
+  });
+
+  it("can change a write and later middleware sees the changed value", () => {
+    const clamp: Middleware<Counter> = ({ next }) =>
+      next.count > 10 ? { count: 10 } : next;
+    const after = vi.fn<Middleware<Counter>>(({ next }) => next);
+    const store = makeStore<Counter>(
+      { count: 0 },
+      { middleware: [clamp, after] }
+    );
+
+    store.setState({ count: 42 });
+
+    expect(store.getState().count).toBe(10);
+    expect(after.mock.calls[0][0].next).toEqual({ count: 10 });
+  });
+
+  it("vetoes a write by returning prev, without notifying", () => {
+    const noNegatives: Middleware<Counter> = ({ prev, next }) =>
+      next.count < 0 ? prev : next;
+    const store = makeStore<Counter>(
+      { count: 0 },
+      { middleware: [noNegatives] }
+    );
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.setState({ count: -1 });
+    expect(store.getState().count).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+
+    store.setState({ count: 1 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips middleware when the write is a no-op", () => {
+    const mw = vi.fn<Middleware<Counter>>(({ next }) => next);
+    const store = makeStore<Counter>({ count: 0 }, { middleware: [mw] });
+
+    store.reset();
+    store.setState((p) => p);
+
+    expect(mw).not.toHaveBeenCalled();
+  });
+
+  it("keeps selector hooks and slices working on top", () => {
+    const double: Middleware<Counter> = ({ op, next }) =>
+      op === "setState" ? { count: next.count * 2 } : next;
+    const store = makeStore<Counter>({ count: 1 }, { middleware: [double] });
+
+    const useCounter = createStoreSlice(store, (s) => s.count, {
+      inc(root) {
+        return { count: root.count + 1 };
+      },
+    });
+
+    const { result } = renderHook(() => ({
+      slice: useCounter(),
+      count: useStoreSelector(store, (s) => s.count),
+    }));
+
+    act(() => {
+      result.current.slice.actions.inc();
+    });
+
+    expect(result.current.count).toBe(4);
+    expect(result.current.slice.state).toBe(4);
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import {
+  addMiddleware,
+  bindStoreActions,
+  focus,
+  makeStore,
+  optimisticUpdate,
+  overlay,
+  syncAcrossTabs,
+  useStoreSelector,
+  withHistory,
+  type TabChannel,
+  type TabMessage,
+  type Store,
+} from "../src";
+
+type Todo = { id: string; text: string };
+type AppState = { todos: Todo[]; count: number };
+
+const initial = (): AppState => ({ todos: [], count: 0 });
+const add =
+  (todo: Todo) =>
+  (p: AppState): AppState => ({ ...p, todos: [...p.todos, todo] });
+const ids = (store: Store<AppState>) => store.getState().todos.map((t) => t.id);
+
+describe("@acoolhq/react-tiny-store - optimistic layers", () => {
+  it("applies a layer immediately and commits it into the confirmed state", () => {
+    const store = makeStore(initial());
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    const layer = optimisticUpdate(store, add({ id: "tmp", text: "A" }));
+    expect(ids(store)).toEqual(["tmp"]);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    layer.commit(add({ id: "1", text: "A" }));
+    expect(ids(store)).toEqual(["1"]);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    layer.rollback();
+    expect(ids(store)).toEqual(["1"]);
+  });
+
+  it("commit() without a final updater confirms the optimistic one", () => {
+    const store = makeStore(initial());
+    optimisticUpdate(store, add({ id: "1", text: "A" })).commit();
+
+    store.reset();
+    expect(ids(store)).toEqual([]);
+  });
+
+  it("rolling back one layer replays the later ones", () => {
+    const store = makeStore(initial());
+    const a = optimisticUpdate(store, add({ id: "a", text: "A" }));
+    const b = optimisticUpdate(store, add({ id: "b", text: "B" }));
+    const c = optimisticUpdate(store, add({ id: "c", text: "C" }));
+    expect(ids(store)).toEqual(["a", "b", "c"]);
+
+    b.rollback();
+    expect(ids(store)).toEqual(["a", "c"]);
+
+    c.commit();
+    expect(ids(store)).toEqual(["c", "a"]);
+
+    a.rollback();
+    expect(ids(store)).toEqual(["c"]);
+  });
+
+  it("rebases pending layers over regular writes", () => {
+    const store = makeStore(initial());
+    const layer = optimisticUpdate(store, (p) => ({
+      ...p,
+      count: p.count * 10,
+    }));
+
+    store.setState((p) => {
+      expect(p.count).toBe(0);
+      return { ...p, count: p.count + 1 };
+    });
+    expect(store.getState().count).toBe(10);
+
+    layer.rollback();
+    expect(store.getState().count).toBe(1);
+  });
+
+  it("commit() with other layers pending notifies once", () => {
+    const store = makeStore(initial());
+    const a = optimisticUpdate(store, add({ id: "a", text: "A" }));
+    optimisticUpdate(store, add({ id: "b", text: "B" }));
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    a.commit();
+    expect(ids(store)).toEqual(["a", "b"]);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("middleware sees confirmed writes only", () => {
+    const store = makeStore(initial());
+    const seen: number[] = [];
+    addMiddleware(store, ({ next }) => (seen.push(next.count), next));
+
+    const layer = optimisticUpdate(store, (p) => ({ ...p, count: 5 }));
+    expect(seen).toEqual([]);
+
+    layer.commit();
+    expect(seen).toEqual([5]);
+  });
+
+  it("reset() discards pending layers", () => {
+    const store = makeStore(initial());
+    const layer = optimisticUpdate(store, add({ id: "tmp", text: "A" }));
+
+    store.reset();
+    expect(ids(store)).toEqual([]);
+
+    layer.commit();
+    expect(ids(store)).toEqual([]);
+  });
+
+  it("exposes api.optimistic to controllers", async () => {
+    const store = makeStore(initial());
+    let fail!: (e: Error) => void;
+    const useActions = bindStoreActions(store, (api) => ({
+      async save(todo: Todo) {
+        const layer = api.optimistic(add(todo));
+        try {
+          await new Promise((_, reject) => (fail = reject));
+          layer.commit();
+        } catch {
+          layer.rollback();
+        }
+      },
+    }));
+
+    const { result } = renderHook(() => ({
+      actions: useActions(),
+      ids: useStoreSelector(store, (s) => s.todos.map((t) => t.id).join()),
+    }));
+
+    let saving!: Promise<void>;
+    act(() => {
+      saving = result.current.actions.save({ id: "tmp", text: "A" });
+    });
+    expect(result.current.ids).toBe("tmp");
+
+    await act(async () => {
+      fail(new Error("offline"));
+      await saving;
+    });
+    expect(result.current.ids).toBe("");
+  });
+
+  it("withHistory snapshots confirmed state, not pending layers", () => {
+    const base = makeStore(initial());
+    const store = withHistory(base);
+    const layer = optimisticUpdate(store, add({ id: "tmp", text: "T" }));
+    expect(store.canUndo()).toBe(false);
+
+    store.setState(add({ id: "1", text: "A" }));
+    store.undo();
+    expect(ids(store)).toEqual(["tmp"]);
+
+    store.redo();
+    expect(ids(store)).toEqual(["1", "tmp"]);
+
+    layer.rollback();
+    store.undo();
+    expect(ids(store)).toEqual([]);
+  });
+
+  it("syncAcrossTabs sends and replaces confirmed state only", () => {
+    const sent: TabMessage<AppState>[] = [];
+    let deliver!: (m: TabMessage<AppState>) => void;
+    const channel: TabChannel<AppState> = {
+      post: (m) => sent.push(m),
+      listen: (fn) => ((deliver = fn), () => {}),
+    };
+    const store = makeStore(initial());
+    syncAcrossTabs(store, { channel });
+
+    optimisticUpdate(store, add({ id: "tmp", text: "T" }));
+    expect(sent).toEqual([]);
+
+    deliver({
+      source: "other",
+      ts: Date.now() + 1000,
+      state: { todos: [{ id: "1", text: "A" }], count: 0 },
+    });
+    expect(ids(store)).toEqual(["1", "tmp"]);
+  });
+
+  it("focus stores layer and intercept through their parent", () => {
+    const root = makeStore(initial());
+    const count = focus(
+      root,
+      (s) => s.count,
+      (s, count) => ({ ...s, count })
+    );
+    const seen: [number, number][] = [];
+    addMiddleware(count, ({ prev, next }) => {
+      seen.push([prev, next]);
+      return Math.min(next, 10);
+    });
+
+    const layer = optimisticUpdate(count, (c) => c + 1);
+    expect(root.getState().count).toBe(1);
+    layer.commit((c) => c + 20);
+    expect(root.getState().count).toBe(10);
+
+    root.setState(add({ id: "1", text: "A" }));
+    expect(seen).toEqual([[0, 20]]);
+  });
+
+  it("overlay stores layer local fields and write back on commit", () => {
+    const parent = makeStore(initial());
+    const scoped = overlay(parent, {}, { writeBack: true });
+    const vetoed = vi.fn();
+    addMiddleware(scoped, ({ prev, next }) => {
+      if (next.count < 0) return (vetoed(), prev);
+      return next;
+    });
+
+    const layer = optimisticUpdate(scoped, add({ id: "tmp", text: "T" }));
+    expect(ids(scoped)).toEqual(["tmp"]);
+    expect(ids(parent)).toEqual([]);
+
+    layer.commit(add({ id: "1", text: "A" }));
+    expect(ids(scoped)).toEqual(["1"]);
+    expect(ids(parent)).toEqual(["1"]);
+
+    scoped.setState((p) => ({ ...p, count: -1 }));
+    parent.setState((p) => ({ ...p, count: -2 }));
+    expect(vetoed).toHaveBeenCalledTimes(2);
+    expect(scoped.getState().count).toBe(0);
+  });
+
+  it("throws for stores not created by makeStore", () => {
+    const store = makeStore(initial());
+    const wrapped: Store<AppState> = { ...store };
+    expect(() => optimisticUpdate(wrapped, (p) => p)).toThrow(
+      /expects a store created by makeStore/
+    );
+  });
+});
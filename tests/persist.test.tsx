@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import {
+  createMemoryStorage,
+  makeStore,
+  persist,
+  useStoreSelector,
+  type PersistStorage,
+} from "../src";
+
+type Settings = { theme: string; draft: string };
+const initial: Settings = { theme: "light", draft: "" };
+
+const stored = (state: unknown, version = 0) =>
+  JSON.stringify({ state, version });
+
+function asyncStorage(seed: Record<string, string> = {}) {
+  const mem = createMemoryStorage(seed);
+  let release: () => void = () => {};
+  const gate = new Promise<void>((r) => (release = r));
+  const storage: PersistStorage = {
+    getItem: async (k) => {
+      await gate;
+      return mem.getItem(k) as string | null;
+    },
+    setItem: async (k, v) => {
+      mem.setItem(k, v);
+    },
+  };
+  return { storage, mem, release };
+}
+
+describe("@acoolhq/react-tiny-store - persist", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    localStorage.clear();
+  });
+
+  it("rehydrates synchronously from a sync storage", () => {
+    const storage = createMemoryStorage({
+      settings: stored({ theme: "dark" }),
+    });
+    const store = makeStore(initial);
+
+    const handle = persist(store, { key: "settings", storage });
+
+    expect(store.getState()).toEqual({ theme: "dark", draft: "" });
+    expect(handle.hydration.getState().status).toBe("hydrated");
+  });
+
+  it("uses localStorage by default and writes throttled snapshots", () => {
+    vi.useFakeTimers();
+    const store = makeStore(initial);
+    persist(store, {
+      key: "settings",
+      throttleMs: 50,
+      partialize: (s) => ({ theme: s.theme }),
+    });
+
+    store.setState((p) => ({ ...p, theme: "dark" }));
+    store.setState((p) => ({ ...p, theme: "blue", draft: "x" }));
+    expect(localStorage.getItem("settings")).toBeNull();
+
+    vi.advanceTimersByTime(50);
+    expect(JSON.parse(localStorage.getItem("settings")!)).toEqual({
+      state: { theme: "blue" },
+      version: 0,
+    });
+  });
+
+  it("reports hydration status for async storages", async () => {
+    const { storage, release } = asyncStorage({
+      settings: stored({ theme: "dark" }),
+    });
+    const store = makeStore(initial);
+    const handle = persist(store, { key: "settings", storage });
+
+    const { result } = renderHook(() => ({
+      status: useStoreSelector(handle.hydration, (h) => h.status),
+      theme: useStoreSelector(store, (s) => s.theme),
+    }));
+    expect(result.current).toEqual({ status: "hydrating", theme: "light" });
+
+    await act(async () => {
+      release();
+      await handle.rehydrate();
+    });
+
+    expect(result.current).toEqual({ status: "hydrated", theme: "dark" });
+  });
+
+  it("does not write before hydration finishes", async () => {
+    const { storage, mem, release } = asyncStorage({
+      settings: stored({ theme: "dark" }),
+    });
+    const store = makeStore(initial);
+    const handle = persist(store, { key: "settings", storage });
+
+    store.setState((p) => ({ ...p, draft: "typing" }));
+    await handle.flush();
+    expect(mem.getItem("settings")).toBe(stored({ theme: "dark" }));
+
+    release();
+    await handle.rehydrate();
+    expect(store.getState()).toEqual({ theme: "dark", draft: "typing" });
+  });
+
+  it("migrates data written under an older version and rewrites it", async () => {
+    const storage = createMemoryStorage({
+      settings: stored({ mode: "dark" }, 1),
+    });
+    const store = makeStore(initial);
+    const migrate = vi.fn((old: any, from: number) =>
+      from < 2 ? { theme: old.mode } : old
+    );
+
+    const handle = persist(store, {
+      key: "settings",
+      storage,
+      version: 2,
+      migrate,
+      partialize: (s) => ({ theme: s.theme }),
+    });
+
+    expect(migrate).toHaveBeenCalledWith({ mode: "dark" }, 1);
+    expect(store.getState().theme).toBe("dark");
+    expect(handle.hydration.getState().status).toBe("hydrated");
+    expect(storage.getItem("settings")).toBe(stored({ theme: "dark" }, 2));
+  });
+
+  it("keeps mismatched data and reports an error when there is no migrate", async () => {
+    const raw = stored({ mode: "dark" }, 1);
+    const storage = createMemoryStorage({ settings: raw });
+    const store = makeStore(initial);
+
+    const handle = persist(store, { key: "settings", storage, version: 2 });
+    await handle.rehydrate();
+
+    expect(handle.hydration.getState().status).toBe("error");
+    expect(String(handle.hydration.getState().error)).toMatch(/version 1/);
+
+    store.setState((p) => ({ ...p, theme: "blue" }));
+    await handle.flush();
+    expect(storage.getItem("settings")).toBe(raw);
+    expect(store.getState().theme).toBe("blue");
+  });
+
+  it("keeps writing after a failed write", async () => {
+    const mem = createMemoryStorage();
+    let full = true;
+    const storage: PersistStorage = {
+      getItem: (k) => mem.getItem(k),
+      setItem: (k, v) => {
+        if (full) throw new Error("QuotaExceededError");
+        mem.setItem(k, v);
+      },
+    };
+    const store = makeStore(initial);
+    const handle = persist(store, { key: "settings", storage });
+
+    store.setState((p) => ({ ...p, theme: "dark" }));
+    await handle.flush();
+    expect(handle.hydration.getState()).toMatchObject({ status: "hydrated" });
+    expect(String(handle.hydration.getState().error)).toMatch(/Quota/);
+
+    full = false;
+    store.setState((p) => ({ ...p, theme: "blue" }));
+    await handle.flush();
+    expect(JSON.parse(mem.getItem("settings") as string).state.theme).toBe(
+      "blue"
+    );
+    expect(handle.hydration.getState()).toEqual({ status: "hydrated" });
+  });
+
+  it("supports custom serialize/deserialize and destroy", async () => {
+    const storage = createMemoryStorage();
+    const store = makeStore(initial);
+    const handle = persist(store, {
+      key: "settings",
+      storage,
+      serialize: (v) => btoa(JSON.stringify(v)),
+      deserialize: (raw) => JSON.parse(atob(raw)),
+    });
+
+    store.setState((p) => ({ ...p, theme: "dark" }));
+    await handle.flush();
+    const raw = storage.getItem("settings") as string;
+    expect(JSON.parse(atob(raw)).state.theme).toBe("dark");
+
+    handle.destroy();
+    store.setState((p) => ({ ...p, theme: "blue" }));
+    await handle.flush();
+    expect(storage.getItem("settings")).toBe(raw);
+  });
+});
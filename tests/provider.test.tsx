@@ -0,0 +1,200 @@
+import React from "react";
+import { describe, it, expect, vi } from "vitest";
+import { render, renderHook, act } from "@testing-library/react";
+
+import {
+  createBatchScope,
+  createContextSync,
+  makeStore,
+  type Store,
+} from "../src";
+
+type AppState = { user: string; todos: string[] };
+
+const forUser = (user: string): AppState => ({ user, todos: [] });
+
+function setup() {
+  const Tiny = createContextSync<AppState>();
+  const seen: { store?: Store<AppState>; mounts: number } = { mounts: 0 };
+
+  function Probe() {
+    const user = Tiny.useSelector((s) => s.user);
+    const todos = Tiny.useSelector((s) => s.todos);
+    seen.store = Tiny.useStoreApi();
+    React.useEffect(() => {
+      seen.mounts++;
+    }, []);
+    return (
+      <p>
+        {user}:{todos.join(",")}
+      </p>
+    );
+  }
+  return { Tiny, Probe, seen };
+}
+
+describe("@acoolhq/react-tiny-store - controlled Provider", () => {
+  it("accepts a store created outside React", () => {
+    const { Tiny, Probe, seen } = setup();
+    const store = makeStore(forUser("ann"));
+
+    const { container } = render(
+      <Tiny.Provider store={store}>
+        <Probe />
+      </Tiny.Provider>
+    );
+    expect(seen.store).toBe(store);
+
+    act(() => store.setState((p) => ({ ...p, todos: ["a"] })));
+    expect(container.textContent).toBe("ann:a");
+  });
+
+  it("ignores new initial values without resetOn", () => {
+    const { Tiny, Probe } = setup();
+    const { container, rerender } = render(
+      <Tiny.Provider initial={forUser("ann")}>
+        <Probe />
+      </Tiny.Provider>
+    );
+
+    rerender(
+      <Tiny.Provider initial={forUser("bob")}>
+        <Probe />
+      </Tiny.Provider>
+    );
+    expect(container.textContent).toBe("ann:");
+  });
+
+  it("resetOn replaces the state in the same store without remounting", () => {
+    const { Tiny, Probe, seen } = setup();
+    const app = (user: string) => (
+      <Tiny.Provider initial={forUser(user)} resetOn={[user]}>
+        <Probe />
+      </Tiny.Provider>
+    );
+    const { container, rerender } = render(app("ann"));
+    const first = seen.store!;
+    act(() => first.setState((p) => ({ ...p, todos: ["a"] })));
+
+    rerender(app("ann"));
+    expect(container.textContent).toBe("ann:a");
+
+    rerender(app("bob"));
+    expect(container.textContent).toBe("bob:");
+    expect(seen.store).toBe(first);
+    expect(seen.mounts).toBe(1);
+  });
+
+  it("resetOn never lets children render or run effects with stale state", () => {
+    const Tiny = createContextSync<AppState>();
+    const renders: string[] = [];
+    const effects: string[] = [];
+    let store: Store<AppState> | undefined;
+    function Secret() {
+      const user = Tiny.useSelector((s) => s.user);
+      const todos = Tiny.useSelector((s) => s.todos);
+      store = Tiny.useStoreApi();
+      const seen = `${user}:${todos.join(",")}`;
+      renders.push(seen);
+      React.useEffect(() => {
+        effects.push(seen);
+      });
+      return <p>{seen}</p>;
+    }
+    const app = (user: string) => (
+      <Tiny.Provider initial={forUser(user)} resetOn={[user]}>
+        <Secret />
+      </Tiny.Provider>
+    );
+    const errors = vi.spyOn(console, "error");
+    const { container, rerender } = render(app("ann"));
+    act(() => store!.setState((p) => ({ ...p, todos: ["secret"] })));
+    const listener = vi.fn();
+    store!.subscribe(listener);
+    renders.length = 0;
+    effects.length = 0;
+
+    rerender(app("bob"));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(container.textContent).toBe("bob:");
+    expect(renders).not.toHaveLength(0);
+    expect(renders.every((r) => r === "bob:")).toBe(true);
+    expect(effects).toEqual(["bob:"]);
+    expect(errors).not.toHaveBeenCalled();
+    errors.mockRestore();
+  });
+
+  it("resetOn holds only the reset store, also on a batch scope", () => {
+    const { Tiny, Probe } = setup();
+    const store = makeStore(forUser("ann"), { batch: createBatchScope() });
+    const other = makeStore(0);
+    const app = (tenant: string) => (
+      <Tiny.Provider store={store} resetOn={[tenant]}>
+        <Probe />
+      </Tiny.Provider>
+    );
+    const errors = vi.spyOn(console, "error");
+    const { container, rerender } = render(app("t1"));
+    act(() => store.setState((p) => ({ ...p, todos: ["a"] })));
+    const onStore = vi.fn();
+    const onOther = vi.fn();
+    store.subscribe(onStore);
+    other.subscribe(onOther);
+    store.subscribe(() => other.setState(1));
+
+    rerender(app("t2"));
+    expect(container.textContent).toBe("ann:");
+    expect(onStore).toHaveBeenCalledTimes(1);
+    expect(onOther).toHaveBeenCalledTimes(1);
+    expect(errors).not.toHaveBeenCalled();
+    errors.mockRestore();
+  });
+
+  it('resetPolicy="recreate" swaps in a fresh store', () => {
+    const { Tiny, Probe, seen } = setup();
+    const app = (user: string) => (
+      <Tiny.Provider
+        initial={forUser(user)}
+        resetOn={[user]}
+        resetPolicy="recreate"
+      >
+        <Probe />
+      </Tiny.Provider>
+    );
+    const { container, rerender } = render(app("ann"));
+    const first = seen.store!;
+    act(() => first.setState((p) => ({ ...p, todos: ["a"] })));
+
+    rerender(app("bob"));
+    expect(container.textContent).toBe("bob:");
+    expect(seen.store).not.toBe(first);
+    expect(seen.store?.getInitialState().user).toBe("bob");
+    expect(seen.mounts).toBe(1);
+
+    act(() => seen.store!.setState((p) => ({ ...p, todos: ["b"] })));
+    expect(container.textContent).toBe("bob:b");
+  });
+
+  it("resets an external store when resetOn changes", () => {
+    const { Tiny, Probe } = setup();
+    const store = makeStore(forUser("ann"));
+    const app = (tenant: string) => (
+      <Tiny.Provider store={store} resetOn={[tenant]}>
+        <Probe />
+      </Tiny.Provider>
+    );
+    const { container, rerender } = render(app("t1"));
+    act(() => store.setState((p) => ({ ...p, todos: ["a"] })));
+
+    rerender(app("t2"));
+    expect(container.textContent).toBe("ann:");
+    expect(store.getState()).toBe(store.getInitialState());
+  });
+
+  it("useStoreApi throws outside a Provider", () => {
+    const { Tiny } = setup();
+    expect(() => renderHook(() => Tiny.useStoreApi())).toThrow(
+      /within <Provider>/
+    );
+  });
+});
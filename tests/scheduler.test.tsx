@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import {
+  batch,
+  derive,
+  makeStore,
+  setDefaultScheduler,
+  useStoreSelector,
+  type StoreChange,
+} from "../src";
+
+type Pos = { x: number; y: number };
+
+function manualScheduler() {
+  const queue: Array<() => void> = [];
+  return {
+    scheduler: (flush: () => void) => void queue.push(flush),
+    runAll: () => queue.splice(0).forEach((f) => f()),
+    get size() {
+      return queue.length;
+    },
+  };
+}
+
+afterEach(() => {
+  setDefaultScheduler("sync");
+  vi.unstubAllGlobals();
+});
+
+describe("@acoolhq/react-tiny-store - schedulers", () => {
+  it("microtask coalesces a tick of updates while reads stay synchronous", async () => {
+    const store = makeStore<Pos>({ x: 0, y: 0 }, { scheduler: "microtask" });
+    const listener = vi.fn<(c: StoreChange<Pos>) => void>();
+    store.subscribe(listener);
+
+    store.setState((p) => ({ ...p, x: 1 }));
+    store.setState((p) => ({ ...p, x: 2 }));
+    store.setState((p) => ({ ...p, y: 3 }));
+    expect(store.getState()).toEqual({ x: 2, y: 3 });
+    expect(listener).not.toHaveBeenCalled();
+
+    await Promise.resolve();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].prev).toEqual({ x: 0, y: 0 });
+    expect(listener.mock.calls[0][0].next).toEqual({ x: 2, y: 3 });
+  });
+
+  it("animationFrame waits for the next frame", () => {
+    const frames: FrameRequestCallback[] = [];
+    vi.stubGlobal("requestAnimationFrame", (cb: FrameRequestCallback) =>
+      frames.push(cb)
+    );
+    const store = makeStore<Pos>(
+      { x: 0, y: 0 },
+      { scheduler: "animationFrame" }
+    );
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    for (let i = 1; i <= 10; i++) store.setState((p) => ({ ...p, x: i }));
+    expect(frames).toHaveLength(1);
+    expect(listener).not.toHaveBeenCalled();
+
+    frames[0](0);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("accepts an injected scheduler and works with batch and derive", () => {
+    const manual = manualScheduler();
+    const store = makeStore<Pos>(
+      { x: 0, y: 0 },
+      { scheduler: manual.scheduler }
+    );
+    const sum = derive([store], (p) => p.x + p.y);
+    const onStore = vi.fn();
+    const onSum = vi.fn();
+    store.subscribe(onStore);
+    sum.subscribe(onSum);
+
+    batch(() => {
+      store.setState((p) => ({ ...p, x: 1 }));
+      store.setState((p) => ({ ...p, y: 1 }));
+    });
+    store.setState((p) => ({ ...p, y: 2 }));
+    expect(manual.size).toBe(1);
+    expect(sum.getState()).toBe(3);
+
+    manual.runAll();
+    expect(onStore).toHaveBeenCalledTimes(1);
+    expect(onSum).toHaveBeenCalledTimes(1);
+  });
+
+  it("setDefaultScheduler applies to stores without their own option", () => {
+    const manual = manualScheduler();
+    const store = makeStore({ n: 0 });
+    const own = makeStore({ n: 0 }, { scheduler: "sync" });
+    const listener = vi.fn();
+    const ownListener = vi.fn();
+    store.subscribe(listener);
+    own.subscribe(ownListener);
+
+    setDefaultScheduler(manual.scheduler);
+    store.setState({ n: 1 });
+    own.setState({ n: 1 });
+    expect(listener).not.toHaveBeenCalled();
+    expect(ownListener).toHaveBeenCalledTimes(1);
+
+    manual.runAll();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("components see one consistent value after a deferred flush", async () => {
+    const store = makeStore<Pos>({ x: 0, y: 0 }, { scheduler: "microtask" });
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return {
+        x: useStoreSelector(store, (p) => p.x),
+        y: useStoreSelector(store, (p) => p.y),
+      };
+    });
+
+    await act(async () => {
+      store.setState({ x: 1, y: 1 });
+      store.setState({ x: 2, y: 2 });
+    });
+
+    expect(result.current).toEqual({ x: 2, y: 2 });
+    expect(renders).toBe(2);
+  });
+});
@@ -0,0 +1,236 @@
+import React from "react";
+import { describe, it, expect, vi } from "vitest";
+import { render, act } from "@testing-library/react";
+
+import {
+  createContextSync,
+  fork,
+  makeStore,
+  overlay,
+  useStoreSelector,
+  type Store,
+} from "../src";
+
+type Form = { title: string; mode: "view" | "edit"; count: number };
+
+const initial = (): Form => ({ title: "Doc", mode: "view", count: 0 });
+
+describe("@acoolhq/react-tiny-store - fork / overlay", () => {
+  it("fork starts from the parent's current value and stays independent", () => {
+    const parent = makeStore(initial());
+    parent.setState((p) => ({ ...p, count: 1 }));
+    const child = fork(parent, { mode: "edit" });
+
+    expect(child.getState()).toEqual({ title: "Doc", mode: "edit", count: 1 });
+
+    child.setState((p) => ({ ...p, title: "Draft" }));
+    parent.setState((p) => ({ ...p, count: 2 }));
+    expect(parent.getState().title).toBe("Doc");
+    expect(child.getState().count).toBe(1);
+
+    child.reset();
+    expect(child.getState().title).toBe("Doc");
+  });
+
+  it("fork with writeBack writes changes to the parent", () => {
+    const parent = makeStore(initial());
+    const child = fork(parent, undefined, { writeBack: true });
+
+    child.setState((p) => ({ ...p, title: "Saved" }), { label: "rename" });
+
+    expect(parent.getState()).toEqual(child.getState());
+  });
+
+  it("sibling forks with writeBack keep each other's changes", () => {
+    const parent = makeStore(initial());
+    const first = fork(parent, undefined, { writeBack: true });
+    const second = fork(parent, undefined, { writeBack: true });
+
+    first.setState((p) => ({ ...p, title: "First" }));
+    second.setState((p) => ({ ...p, count: 1 }));
+
+    expect(parent.getState()).toEqual({
+      title: "First",
+      mode: "view",
+      count: 1,
+    });
+  });
+
+  it("overlay follows the parent live and keeps overlaid fields local", () => {
+    const parent = makeStore(initial());
+    const child = overlay(parent, { mode: "edit" as const });
+    const listener = vi.fn();
+    child.subscribe(listener);
+
+    parent.setState((p) => ({ ...p, count: 5 }));
+    expect(child.getState()).toEqual({ title: "Doc", mode: "edit", count: 5 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(child.getState()).toBe(child.getState());
+
+    parent.setState((p) => ({ ...p, mode: "view" }));
+    expect(child.getState().mode).toBe("edit");
+
+    child.setState((p) => ({ ...p, title: "Local" }));
+    expect(parent.getState().title).toBe("Doc");
+    expect(child.getState().title).toBe("Local");
+
+    child.reset();
+    expect(child.getState().title).toBe("Doc");
+  });
+
+  it("overlay with writeBack sends non-overlaid fields to the parent", () => {
+    const parent = makeStore(initial());
+    const child = overlay(
+      parent,
+      { mode: "edit" as const },
+      { writeBack: true }
+    );
+
+    child.setState((p) => ({ ...p, mode: "view", count: 9 }));
+
+    expect(parent.getState()).toEqual({ title: "Doc", mode: "view", count: 9 });
+    expect(child.getState().mode).toBe("view");
+    parent.setState((p) => ({ ...p, mode: "edit" }));
+    expect(child.getState().mode).toBe("view");
+  });
+});
+
+describe("@acoolhq/react-tiny-store - nested Provider scopes", () => {
+  const Tiny = createContextSync<Form>();
+
+  function Title({ id }: { id: string }) {
+    const title = Tiny.useSelector((s) => s.title);
+    const mode = Tiny.useSelector((s) => s.mode);
+    const store = Tiny.useStoreApi();
+    return (
+      <button
+        data-testid={id}
+        onClick={() => store.setState((p) => ({ ...p, title: `${p.title}!` }))}
+      >
+        {title}/{mode}
+      </button>
+    );
+  }
+
+  it('inherit="fork" gives each row its own copy of the parent value', () => {
+    const page = makeStore(initial());
+    const { getByTestId } = render(
+      <Tiny.Provider store={page}>
+        <Tiny.Provider inherit="fork" initial={{ mode: "edit" }}>
+          <Title id="a" />
+        </Tiny.Provider>
+        <Tiny.Provider inherit="fork" writeBack>
+          <Title id="b" />
+        </Tiny.Provider>
+      </Tiny.Provider>
+    );
+    expect(getByTestId("a").textContent).toBe("Doc/edit");
+
+    act(() => getByTestId("a").click());
+    expect(getByTestId("a").textContent).toBe("Doc!/edit");
+    expect(page.getState().title).toBe("Doc");
+
+    act(() => getByTestId("b").click());
+    expect(page.getState().title).toBe("Doc!");
+  });
+
+  it('inherit="overlay" reflects later parent changes', () => {
+    const page = makeStore(initial());
+    const { getByTestId } = render(
+      <Tiny.Provider store={page}>
+        <Tiny.Provider inherit="overlay" initial={{ mode: "edit" }}>
+          <Title id="o" />
+        </Tiny.Provider>
+      </Tiny.Provider>
+    );
+
+    act(() => page.setState((p) => ({ ...p, title: "Renamed" })));
+    expect(getByTestId("o").textContent).toBe("Renamed/edit");
+  });
+
+  it('api.optimistic works inside inherit="overlay"', () => {
+    const page = makeStore(initial());
+    let layer!: { rollback: () => void };
+    function Optimistic() {
+      const { rename } = Tiny.useActions((api) => ({
+        rename: () => {
+          layer = api.optimistic((p) => ({ ...p, title: "Pending" }));
+        },
+      }));
+      return <button data-testid="rename" onClick={rename} />;
+    }
+    const { getByTestId } = render(
+      <Tiny.Provider store={page}>
+        <Tiny.Provider inherit="overlay" initial={{ mode: "edit" }}>
+          <Title id="o" />
+          <Optimistic />
+        </Tiny.Provider>
+      </Tiny.Provider>
+    );
+
+    act(() => getByTestId("rename").click());
+    expect(getByTestId("o").textContent).toBe("Pending/edit");
+    expect(page.getState().title).toBe("Doc");
+
+    act(() => layer.rollback());
+    expect(getByTestId("o").textContent).toBe("Doc/edit");
+  });
+
+  it("useScope reads ancestors by level or name", () => {
+    const page = makeStore(initial());
+    const widget = makeStore({ ...initial(), title: "Widget" });
+    const seen: Record<string, Store<Form>> = {};
+
+    function Both() {
+      seen.near = Tiny.useScope();
+      seen.up = Tiny.useScope(1);
+      seen.page = Tiny.useScope("page");
+      const pageTitle = useStoreSelector(seen.page, (s) => s.title);
+      const widgetTitle = useStoreSelector(
+        Tiny.useScope("widget"),
+        (s) => s.title
+      );
+      return (
+        <p>
+          {pageTitle}+{widgetTitle}
+        </p>
+      );
+    }
+
+    const { container } = render(
+      <Tiny.Provider store={page} name="page">
+        <Tiny.Provider store={widget} name="widget">
+          <Both />
+        </Tiny.Provider>
+      </Tiny.Provider>
+    );
+
+    expect(container.textContent).toBe("Doc+Widget");
+    expect(seen.near).toBe(widget);
+    expect(seen.up).toBe(page);
+    expect(seen.page).toBe(page);
+  });
+
+  it("reports missing scopes", () => {
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+    function Missing() {
+      Tiny.useScope("nope");
+      return null;
+    }
+    expect(() =>
+      render(
+        <Tiny.Provider initial={initial()}>
+          <Missing />
+        </Tiny.Provider>
+      )
+    ).toThrow(/no Provider named "nope"/);
+    expect(() =>
+      render(
+        <Tiny.Provider inherit="fork">
+          <Title id="x" />
+        </Tiny.Provider>
+      )
+    ).toThrow(/must be nested/);
+    errors.mockRestore();
+  });
+});
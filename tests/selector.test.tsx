@@ -0,0 +1,102 @@
+import React from "react";
+import { describe, it, expect } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import {
+  createContextSync,
+  createSelector,
+  makeStore,
+  useStoreSelector,
+} from "../src";
+
+type Todo = { id: string; text: string; done: boolean };
+type AppState = { todos: Todo[]; filter: "all" | "done"; tick: number };
+
+const initial: AppState = {
+  todos: [
+    { id: "1", text: "A", done: true },
+    { id: "2", text: "B", done: false },
+  ],
+  filter: "done",
+  tick: 0,
+};
+
+const makeVisible = () =>
+  createSelector(
+    [(s: AppState) => s.todos, (s: AppState) => s.filter],
+    (todos, filter) => (filter === "all" ? todos : todos.filter((t) => t.done))
+  );
+
+describe("@acoolhq/react-tiny-store - createSelector", () => {
+  it("recomputes only when input results change", () => {
+    const selectVisible = makeVisible();
+
+    const a = selectVisible(initial);
+    const b = selectVisible({ ...initial, tick: 1 });
+    expect(b).toBe(a);
+    expect(selectVisible.recomputations()).toBe(1);
+
+    selectVisible({ ...initial, filter: "all" });
+    expect(selectVisible.recomputations()).toBe(2);
+
+    selectVisible.resetRecomputations();
+    expect(selectVisible.recomputations()).toBe(0);
+  });
+
+  it("caches per argument list up to cacheSize", () => {
+    const selectTodo = createSelector(
+      [(s: AppState, _id: string) => s.todos, (_s: AppState, id: string) => id],
+      (todos, id) => todos.find((t) => t.id === id),
+      { cacheSize: 2 }
+    );
+
+    selectTodo(initial, "1");
+    selectTodo(initial, "2");
+    selectTodo(initial, "1");
+    selectTodo(initial, "2");
+    expect(selectTodo.recomputations()).toBe(2);
+    expect(selectTodo(initial, "2")?.text).toBe("B");
+
+    selectTodo.clearCache();
+    selectTodo(initial, "1");
+    expect(selectTodo.recomputations()).toBe(3);
+  });
+
+  it("plugs into useStoreSelector and skips work on unrelated updates", () => {
+    const store = makeStore(initial);
+    const selectVisible = makeVisible();
+    let renders = 0;
+
+    const { result } = renderHook(() => {
+      renders++;
+      return useStoreSelector(store, selectVisible);
+    });
+    expect(result.current.map((t) => t.id)).toEqual(["1"]);
+
+    act(() => {
+      store.setState((p) => ({ ...p, tick: p.tick + 1 }));
+    });
+    expect(renders).toBe(1);
+    expect(selectVisible.recomputations()).toBe(1);
+
+    act(() => {
+      store.setState((p) => ({ ...p, filter: "all" }));
+    });
+    expect(result.current).toHaveLength(2);
+    expect(selectVisible.recomputations()).toBe(2);
+  });
+
+  it("plugs into the context useSelector", () => {
+    const Tiny = createContextSync<AppState>();
+    const selectVisible = makeVisible();
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <Tiny.Provider initial={initial}>{children}</Tiny.Provider>
+    );
+
+    const { result } = renderHook(() => Tiny.useSelector(selectVisible), {
+      wrapper,
+    });
+
+    expect(result.current.map((t) => t.id)).toEqual(["1"]);
+  });
+});
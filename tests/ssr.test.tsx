@@ -0,0 +1,179 @@
+import React from "react";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { act } from "@testing-library/react";
+import { renderToString } from "react-dom/server";
+import { hydrateRoot, type Root } from "react-dom/client";
+
+import {
+  HydrationScript,
+  createContextSync,
+  dehydrate,
+  deserialize,
+  hydrate,
+  makeStore,
+  readHydrationScript,
+  serialize,
+  useStoreSelector,
+  type Store,
+} from "../src";
+
+type AppState = {
+  todos: string[];
+  updatedAt: Date;
+  tags: Set<string>;
+  note?: string;
+};
+
+const initial = (): AppState => ({
+  todos: [],
+  updatedAt: new Date(0),
+  tags: new Set(),
+});
+
+let root: Root | undefined;
+afterEach(() => {
+  act(() => root?.unmount());
+  root = undefined;
+  document.body.innerHTML = "";
+});
+
+function Todos({ store }: { store: Store<AppState> }) {
+  const todos = useStoreSelector(store, (s) => s.todos);
+  return (
+    <ul>
+      {todos.map((t) => (
+        <li key={t}>{t}</li>
+      ))}
+    </ul>
+  );
+}
+
+describe("@acoolhq/react-tiny-store - serialize", () => {
+  it("round-trips Date, Map, Set, BigInt, undefined and special numbers", () => {
+    const value = {
+      at: new Date(1_700_000_000_000),
+      map: new Map<unknown, unknown>([
+        ["a", 1],
+        [2, new Set([1n])],
+      ]),
+      set: new Set(["x"]),
+      big: 12345678901234567890n,
+      missing: undefined,
+      list: [undefined, NaN, Infinity, -0],
+      tricky: { $t: "Date", v: 0 },
+    };
+
+    const back = deserialize<typeof value>(serialize(value));
+
+    expect(back).toEqual(value);
+    expect(back.at).toBeInstanceOf(Date);
+    expect("missing" in back).toBe(true);
+    expect(Object.is(back.list[3], -0)).toBe(true);
+    expect(back.tricky).toEqual({ $t: "Date", v: 0 });
+  });
+
+  it("escapes </script> and line separators", () => {
+    const text = serialize({
+      html: "</script><script>alert(1)</script>\u2028",
+    });
+    expect(text).not.toMatch(/<|>|\u2028/);
+    expect(deserialize<{ html: string }>(text).html).toBe(
+      "</script><script>alert(1)</script>\u2028"
+    );
+  });
+
+  it("rejects functions and cycles", () => {
+    const cyclic: Record<string, unknown> = {};
+    cyclic.self = cyclic;
+    expect(() => serialize(cyclic)).toThrow(/circular/);
+    expect(() => serialize({ fn: () => {} })).toThrow(/function/);
+  });
+});
+
+describe("@acoolhq/react-tiny-store - dehydrate / hydrate", () => {
+  it("server hooks render the dehydrated state and the client hydrates without mismatch", async () => {
+    // Server: state changes after construction, before render.
+    const server = makeStore(initial());
+    server.setState((p) => ({ ...p, todos: ["a", "b"], tags: new Set(["x"]) }));
+    const payload = dehydrate({ app: server });
+    const html = renderToString(<Todos store={server} />);
+    expect(html).toContain("<li>a</li><li>b</li>");
+
+    // Client
+    const client = makeStore(initial());
+    hydrate({ app: client }, payload);
+    expect(client.getState().todos).toEqual(["a", "b"]);
+    expect(client.getState().tags).toEqual(new Set(["x"]));
+    expect(client.getServerState?.()).toBe(client.getState());
+
+    const container = document.createElement("div");
+    container.innerHTML = html;
+    document.body.appendChild(container);
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+    const recoverable = vi.fn();
+    await act(async () => {
+      root = hydrateRoot(container, <Todos store={client} />, {
+        onRecoverableError: recoverable,
+      });
+    });
+
+    expect(recoverable).not.toHaveBeenCalled();
+    expect(errors).not.toHaveBeenCalled();
+    errors.mockRestore();
+
+    act(() => client.setState((p) => ({ ...p, todos: ["c"] })));
+    expect(container.innerHTML).toBe("<ul><li>c</li></ul>");
+  });
+
+  it("ignores missing payloads and keys", () => {
+    const store = makeStore(initial());
+    const other = makeStore(initial());
+    hydrate({ app: store }, null);
+    hydrate(
+      { other },
+      dehydrate({ app: makeStore({ ...initial(), todos: ["x"] }) })
+    );
+    expect(store.getState().todos).toEqual([]);
+    expect(other.getState().todos).toEqual([]);
+  });
+
+  it("HydrationScript embeds a payload readHydrationScript can read back", () => {
+    const store = makeStore({ ...initial(), note: "</script>" });
+    const html = renderToString(<HydrationScript stores={{ app: store }} />);
+    expect(html).not.toContain("</script></script>");
+
+    document.body.innerHTML = html;
+    const client = makeStore(initial());
+    hydrate({ app: client }, readHydrationScript());
+    expect(client.getState().note).toBe("</script>");
+  });
+
+  it("createContextSync providers hydrate from their HydrationScript", async () => {
+    const Tiny = createContextSync<AppState>();
+    function List() {
+      const todos = Tiny.useSelector((s) => s.todos);
+      return <p>{todos.join(",")}</p>;
+    }
+    const app = (state: AppState) => (
+      <Tiny.Provider initial={state} hydrationId="tiny">
+        <Tiny.HydrationScript id="tiny" />
+        <List />
+      </Tiny.Provider>
+    );
+
+    const html = renderToString(app({ ...initial(), todos: ["a", "b"] }));
+    const container = document.createElement("div");
+    container.innerHTML = html;
+    document.body.appendChild(container);
+
+    const recoverable = vi.fn();
+    await act(async () => {
+      root = hydrateRoot(container, app(initial()), {
+        onRecoverableError: recoverable,
+      });
+    });
+
+    expect(recoverable).not.toHaveBeenCalled();
+    expect(container.querySelector("p")?.textContent).toBe("a,b");
+  });
+});
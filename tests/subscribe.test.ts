@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { batch, derive, makeStore, subscribeWithSelector } from "../src";
+
+type AppState = { route: string; items: number[]; tick: number };
+
+const initial = (): AppState => ({ route: "/", items: [1], tick: 0 });
+
+describe("@acoolhq/react-tiny-store - subscribeWithSelector", () => {
+  it("calls the listener with (next, prev) only when the selection changes", () => {
+    const store = makeStore(initial());
+    const listener = vi.fn();
+    subscribeWithSelector(store, (s) => s.route, listener);
+
+    store.setState((p) => ({ ...p, tick: 1 }));
+    expect(listener).not.toHaveBeenCalled();
+
+    store.setState((p) => ({ ...p, route: "/todos" }));
+    expect(listener).toHaveBeenCalledExactlyOnceWith("/todos", "/");
+  });
+
+  it("honours equalityFn and fireImmediately", () => {
+    const store = makeStore(initial());
+    const listener = vi.fn();
+    subscribeWithSelector(store, (s) => s.items.length, listener, {
+      equalityFn: (a, b) => a === b,
+      fireImmediately: true,
+    });
+    expect(listener).toHaveBeenCalledExactlyOnceWith(1, 1);
+
+    store.setState((p) => ({ ...p, items: [2] }));
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    const sum = vi.fn();
+    subscribeWithSelector(store, (s) => s.items.map((i) => i * 2), sum, {
+      equalityFn: (a, b) => a.join() === b.join(),
+    });
+    store.setState((p) => ({ ...p, items: [2] }));
+    expect(sum).not.toHaveBeenCalled();
+  });
+
+  it("fires once per batch with the final value", () => {
+    const store = makeStore(initial());
+    const listener = vi.fn();
+    subscribeWithSelector(store, (s) => s.tick, listener);
+
+    batch(() => {
+      store.setState((p) => ({ ...p, tick: 1 }));
+      store.setState((p) => ({ ...p, tick: 2 }));
+    });
+
+    expect(listener).toHaveBeenCalledExactlyOnceWith(2, 0);
+  });
+
+  it("stops after unsubscribe and works with derived stores", () => {
+    const store = makeStore(initial());
+    const count = derive([store], (s) => s.items.length);
+    const listener = vi.fn();
+    const stop = subscribeWithSelector(count, (n) => n, listener);
+
+    store.setState((p) => ({ ...p, items: [1, 2] }));
+    expect(listener).toHaveBeenCalledExactlyOnceWith(2, 1);
+
+    stop();
+    store.setState((p) => ({ ...p, items: [] }));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,171 @@
+import React from "react";
+import { describe, it, expect, vi } from "vitest";
+import { render, act, screen } from "@testing-library/react";
+
+import {
+  createContextSync,
+  createResource,
+  makeStore,
+  useSuspenseSelector,
+  type Resource,
+} from "../src";
+
+type User = { name: string };
+
+function deferred<V>() {
+  let resolve!: (v: V) => void;
+  let reject!: (e: unknown) => void;
+  const promise = new Promise<V>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+class Boundary extends React.Component<
+  { children: React.ReactNode },
+  { error: unknown }
+> {
+  state = { error: undefined as unknown };
+  static getDerivedStateFromError(error: unknown) {
+    return { error };
+  }
+  render() {
+    return this.state.error ? (
+      <p>error: {String((this.state.error as Error).message)}</p>
+    ) : (
+      this.props.children
+    );
+  }
+}
+
+const shell = (children: React.ReactNode) => (
+  <Boundary>
+    <React.Suspense fallback={<p>loading</p>}>{children}</React.Suspense>
+  </Boundary>
+);
+
+describe("@acoolhq/react-tiny-store - useSuspenseSelector", () => {
+  it("suspends on a pending promise and renders the resolved value", async () => {
+    const gate = deferred<User>();
+    const store = makeStore({ user: gate.promise as PromiseLike<User> });
+    function Name() {
+      const user = useSuspenseSelector(store, (s) => s.user);
+      return <p>{user.name}</p>;
+    }
+
+    render(shell(<Name />));
+    expect(screen.getByText("loading")).toBeTruthy();
+
+    await act(async () => gate.resolve({ name: "Ann" }));
+    expect(screen.getByText("Ann")).toBeTruthy();
+  });
+
+  it("throws rejections to the error boundary", async () => {
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+    const gate = deferred<User>();
+    const store = makeStore({ user: createResource(gate.promise) });
+    function Name() {
+      return <p>{useSuspenseSelector(store, (s) => s.user).name}</p>;
+    }
+
+    render(shell(<Name />));
+    await act(async () => gate.reject(new Error("offline")));
+
+    expect(screen.getByText("error: offline")).toBeTruthy();
+    errors.mockRestore();
+  });
+
+  it("re-suspends when the store switches to a new resource", async () => {
+    const first = deferred<User>();
+    const second = deferred<User>();
+    const store = makeStore<{ user: Resource<User> }>({
+      user: createResource(first.promise),
+    });
+    function Name() {
+      return <p>{useSuspenseSelector(store, (s) => s.user).name}</p>;
+    }
+
+    render(shell(<Name />));
+    await act(async () => first.resolve({ name: "Ann" }));
+    expect(screen.getByText("Ann")).toBeTruthy();
+
+    act(() => store.setState({ user: createResource(second.promise) }));
+    expect(screen.getByText("loading")).toBeTruthy();
+
+    await act(async () => second.resolve({ name: "Bob" }));
+    expect(screen.getByText("Bob")).toBeTruthy();
+  });
+
+  it("does not loop when the selector creates a new promise each time", async () => {
+    const store = makeStore({ id: 1 });
+    const selector = vi.fn((s: { id: number }) =>
+      Promise.resolve(`user-${s.id}`)
+    );
+    function Name() {
+      return <p>{useSuspenseSelector(store, selector)}</p>;
+    }
+
+    render(shell(<Name />));
+    await act(async () => {});
+    expect(screen.getByText("user-1")).toBeTruthy();
+    const calls = selector.mock.calls.length;
+
+    await act(async () => store.setState({ id: 2 }));
+    expect(screen.getByText("user-2")).toBeTruthy();
+    expect(selector.mock.calls.length).toBe(calls + 1);
+  });
+
+  it("resolves an inline selector that creates a new promise each time", async () => {
+    const store = makeStore({ id: 1 });
+    const load = vi.fn((id: number) => Promise.resolve(`user-${id}`));
+    function Name() {
+      return <p>{useSuspenseSelector(store, (s) => load(s.id))}</p>;
+    }
+
+    render(shell(<Name />));
+    await act(async () => {});
+    expect(screen.getByText("user-1")).toBeTruthy();
+    expect(load).toHaveBeenCalledTimes(1);
+
+    await act(async () => store.setState({ id: 2 }));
+    expect(screen.getByText("user-2")).toBeTruthy();
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps inline selectors with different keys apart", async () => {
+    const store = makeStore({ suffix: "!" });
+    function Name({ id }: { id: number }) {
+      const name = useSuspenseSelector(
+        store,
+        (s) => Promise.resolve(`user-${id}${s.suffix}`),
+        `user:${id}`
+      );
+      return <p>{name}</p>;
+    }
+
+    render(
+      shell(
+        <>
+          <Name id={1} />
+          <Name id={2} />
+        </>
+      )
+    );
+    await act(async () => {});
+    expect(screen.getByText("user-1!")).toBeTruthy();
+    expect(screen.getByText("user-2!")).toBeTruthy();
+  });
+
+  it("returns plain values without suspending and has a context variant", () => {
+    const Tiny = createContextSync<{ count: number }>();
+    function Count() {
+      return <p>count {Tiny.useSuspenseSelector((s) => s.count)}</p>;
+    }
+
+    render(
+      <Tiny.Provider initial={{ count: 3 }}>{shell(<Count />)}</Tiny.Provider>
+    );
+    expect(screen.getByText("count 3")).toBeTruthy();
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+import {
+  makeStore,
+  syncAcrossTabs,
+  type TabChannel,
+  type TabMessage,
+} from "../src";
+
+type Cart = { items: string[]; open: boolean };
+const initial: Cart = { items: [], open: false };
+
+/** In-process hub: every port receives what the other ports post. */
+function fakeHub<T>() {
+  const ports = new Set<(m: TabMessage<T>) => void>();
+  const sent: TabMessage<T>[] = [];
+  const port = (): TabChannel<T> => {
+    let mine: ((m: TabMessage<T>) => void) | undefined;
+    return {
+      post(m) {
+        sent.push(m);
+        for (const p of Array.from(ports)) if (p !== mine) p(m);
+      },
+      listen(fn) {
+        mine = fn;
+        ports.add(fn);
+        return () => ports.delete(fn);
+      },
+    };
+  };
+  return { port, sent };
+}
+
+describe("@acoolhq/react-tiny-store - syncAcrossTabs", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends local changes and applies incoming ones without echo loops", () => {
+    const hub = fakeHub<Cart>();
+    const a = makeStore(initial);
+    const b = makeStore(initial);
+    syncAcrossTabs(a, { channel: hub.port() });
+    syncAcrossTabs(b, { channel: hub.port() });
+    const listener = vi.fn();
+    b.subscribe(listener);
+
+    a.setState((p) => ({ ...p, items: ["apple"] }));
+
+    expect(b.getState().items).toEqual(["apple"]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(hub.sent).toHaveLength(1);
+
+    b.setState((p) => ({ ...p, items: [...p.items, "pear"] }));
+    expect(a.getState().items).toEqual(["apple", "pear"]);
+    expect(hub.sent).toHaveLength(2);
+  });
+
+  it("only sends changes accepted by filter", () => {
+    const hub = fakeHub<Cart>();
+    const a = makeStore(initial);
+    const b = makeStore(initial);
+    const filter = (next: Cart, prev: Cart) => next.items !== prev.items;
+    syncAcrossTabs(a, { channel: hub.port(), filter });
+    syncAcrossTabs(b, { channel: hub.port(), filter });
+
+    a.setState((p) => ({ ...p, open: true }));
+    expect(b.getState().open).toBe(false);
+    expect(hub.sent).toHaveLength(0);
+  });
+
+  it("keeps local fields chosen by merge", () => {
+    const hub = fakeHub<Cart>();
+    const a = makeStore(initial);
+    const b = makeStore(initial);
+    const filter = (next: Cart, prev: Cart) => next.items !== prev.items;
+    const merge = (remote: Cart, local: Cart) => ({
+      ...remote,
+      open: local.open,
+    });
+    syncAcrossTabs(a, { channel: hub.port(), filter, merge });
+    syncAcrossTabs(b, { channel: hub.port(), filter, merge });
+
+    b.setState((p) => ({ ...p, open: true }));
+    a.setState((p) => ({ ...p, items: ["apple"] }));
+
+    expect(b.getState()).toEqual({ items: ["apple"], open: true });
+    expect(hub.sent).toHaveLength(1);
+  });
+
+  it("resolves conflicts by last-writer-wins", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1000);
+    const store = makeStore(initial);
+    let deliver: (m: TabMessage<Cart>) => void = () => {};
+    syncAcrossTabs(store, {
+      channel: {
+        post: () => {},
+        listen: (fn) => ((deliver = fn), () => {}),
+      },
+    });
+
+    store.setState((p) => ({ ...p, items: ["local"] }));
+
+    deliver({
+      source: "other",
+      ts: 999,
+      state: { ...initial, items: ["old"] },
+    });
+    expect(store.getState().items).toEqual(["local"]);
+
+    deliver({
+      source: "other",
+      ts: 1001,
+      state: { ...initial, items: ["new"] },
+    });
+    expect(store.getState().items).toEqual(["new"]);
+  });
+
+  it("uses a custom resolver when given", () => {
+    const store = makeStore(initial);
+    let deliver: (m: TabMessage<Cart>) => void = () => {};
+    const resolve = vi.fn(
+      (local: { state: Cart }, remote: { state: Cart }): Cart => ({
+        ...local.state,
+        items: Array.from(
+          new Set([...local.state.items, ...remote.state.items])
+        ),
+      })
+    );
+    syncAcrossTabs(store, {
+      channel: { post: () => {}, listen: (fn) => ((deliver = fn), () => {}) },
+      resolve,
+    });
+
+    store.setState((p) => ({ ...p, items: ["a"] }));
+    deliver({ source: "other", ts: 0, state: { ...initial, items: ["b"] } });
+
+    expect(resolve).toHaveBeenCalledTimes(1);
+    expect(store.getState().items).toEqual(["a", "b"]);
+  });
+
+  it("stops syncing after cleanup", () => {
+    const hub = fakeHub<Cart>();
+    const a = makeStore(initial);
+    const b = makeStore(initial);
+    const stop = syncAcrossTabs(a, { channel: hub.port() });
+    syncAcrossTabs(b, { channel: hub.port() });
+
+    stop();
+    a.setState((p) => ({ ...p, items: ["x"] }));
+    b.setState((p) => ({ ...p, items: ["y"] }));
+
+    expect(a.getState().items).toEqual(["x"]);
+    expect(b.getState().items).toEqual(["y"]);
+  });
+});
@@ -0,0 +1,162 @@
+import React from "react";
+import { describe, it, expect } from "vitest";
+
+import {
+  batch,
+  bindStoreActions,
+  createContextSync,
+  createStoreSlice,
+  makeStore,
+  useStoreSelector,
+} from "../src";
+import {
+  act,
+  captureAction,
+  changedPaths,
+  recordNotifications,
+  renderHookWithStore,
+  renderWithStore,
+} from "../src/testing";
+
+type Todo = { id: string; text: string; done: boolean };
+type AppState = { todos: Todo[]; filter: string };
+
+const initial = (): AppState => ({
+  todos: [{ id: "1", text: "A", done: false }],
+  filter: "",
+});
+
+describe("@acoolhq/react-tiny-store - testing utilities", () => {
+  it("renderWithStore renders inside a context Provider and returns its store", () => {
+    const Tiny = createContextSync<AppState>();
+    function Titles() {
+      const todos = Tiny.useSelector((s) => s.todos);
+      return <p>{todos.map((t) => t.text).join(",")}</p>;
+    }
+
+    const { store, container, unmount } = renderWithStore(<Titles />, {
+      initial: initial(),
+      context: Tiny,
+    });
+    expect(container.textContent).toBe("A");
+
+    act(() =>
+      store.setState((p) => ({
+        ...p,
+        todos: [...p.todos, { id: "2", text: "B", done: false }],
+      }))
+    );
+    expect(container.textContent).toBe("A,B");
+
+    unmount();
+    expect(container.isConnected).toBe(false);
+  });
+
+  it("renderWithStore passes the store to a UI function", () => {
+    const store = makeStore(initial());
+    function Filter({ s }: { s: typeof store }) {
+      return <p>{useStoreSelector(s, (x) => x.filter) || "none"}</p>;
+    }
+
+    const view = renderWithStore((s) => <Filter s={s} />, { store });
+    expect(view.store).toBe(store);
+    expect(view.container.textContent).toBe("none");
+
+    act(() => store.setState((p) => ({ ...p, filter: "done" })));
+    expect(view.container.textContent).toBe("done");
+    view.unmount();
+  });
+
+  it("renderHookWithStore counts renders of a selector hook", () => {
+    const probe = renderHookWithStore(
+      (store) => useStoreSelector(store, (s) => s.filter),
+      { initial: initial() }
+    );
+    expect(probe.result.current).toBe("");
+    expect(probe.renders).toBe(1);
+
+    act(() => probe.store.setState((p) => ({ ...p, todos: [...p.todos] })));
+    expect(probe.renders).toBe(1);
+
+    act(() => probe.store.setState((p) => ({ ...p, filter: "x" })));
+    expect(probe.result.current).toBe("x");
+    expect(probe.renders).toBe(2);
+
+    probe.rerender();
+    expect(probe.renders).toBe(3);
+    probe.unmount();
+  });
+
+  it("recordNotifications counts notifications and batch flushes", () => {
+    const store = makeStore(initial());
+    const rec = recordNotifications(store);
+
+    store.setState((p) => ({ ...p, filter: "a" }));
+    expect(rec.notifications).toBe(1);
+    expect(rec.flushes).toBe(0);
+
+    batch(() => {
+      store.setState((p) => ({ ...p, filter: "b" }));
+      store.setState((p) => ({ ...p, filter: "c" }));
+    });
+    expect(rec.notifications).toBe(2);
+    expect(rec.flushes).toBe(1);
+    expect(rec.changes[1].next.filter).toBe("c");
+
+    const other = makeStore(initial());
+    batch(() => other.setState((p) => ({ ...p, filter: "x" })));
+    expect(rec.flushes).toBe(1);
+
+    rec.clear();
+    rec.stop();
+    store.setState((p) => ({ ...p, filter: "d" }));
+    expect(rec.notifications).toBe(0);
+  });
+
+  it("captureAction reports changed paths, notifications and actions", async () => {
+    const store = makeStore(initial());
+    const useTodos = createStoreSlice(store, (s) => s.todos, {
+      toggle: (s, id: string) => ({
+        ...s,
+        todos: s.todos.map((t) => (t.id === id ? { ...t, done: !t.done } : t)),
+      }),
+    });
+    const probe = renderHookWithStore(() => useTodos().actions.toggle, {
+      store,
+    });
+    const toggle = probe.result.current;
+    probe.unmount();
+
+    const effect = captureAction(store, () => toggle("1"));
+    expect(effect.changed).toEqual(["todos.0.done"]);
+    expect(effect.notifications).toBe(1);
+    expect(effect.actions).toEqual([{ type: "toggle", args: ["1"] }]);
+    expect(effect.next.todos[0].done).toBe(true);
+
+    const useActions = bindStoreActions(store, (api) => ({
+      async load() {
+        await Promise.resolve();
+        api.set((p) => ({ ...p, filter: "loaded" }));
+      },
+    }));
+    const { result, unmount } = renderHookWithStore(() => useActions(), {
+      store,
+    });
+    const actions = result.current;
+    unmount();
+    const loaded = await captureAction(store, () => actions.load());
+    expect(loaded.changed).toEqual(["filter"]);
+  });
+
+  it("changedPaths reports additions, removals and replaced roots", () => {
+    expect(changedPaths({ a: 1, b: { c: 1 } }, { b: { c: 2 }, d: 1 })).toEqual([
+      "a",
+      "b.c",
+      "d",
+    ]);
+    expect(changedPaths([1, 2], [1, 2, 3])).toEqual(["2"]);
+    expect(changedPaths(1, 2)).toEqual([""]);
+    const same = { a: 1 };
+    expect(changedPaths(same, same)).toEqual([]);
+  });
+});
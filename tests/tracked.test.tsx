@@ -0,0 +1,141 @@
+import React from "react";
+import { describe, it, expect } from "vitest";
+import { render, renderHook, act } from "@testing-library/react";
+
+import { createContextSync, makeStore, useTrackedState } from "../src";
+
+type Todo = { id: string; text: string; done: boolean };
+type AppState = { todos: Todo[]; ui: { modalOpen: boolean }; tick: number };
+
+const initial: AppState = {
+  todos: [
+    { id: "1", text: "A", done: false },
+    { id: "2", text: "B", done: false },
+  ],
+  ui: { modalOpen: false },
+  tick: 0,
+};
+
+const setTodo = (i: number, patch: Partial<Todo>) => (p: AppState) => ({
+  ...p,
+  todos: p.todos.map((t, j) => (j === i ? { ...t, ...patch } : t)),
+});
+
+describe("@acoolhq/react-tiny-store - useTrackedState", () => {
+  it("re-renders only when a path read during render changes", () => {
+    const store = makeStore(initial);
+    let renders = 0;
+
+    const { result } = renderHook(() => {
+      renders++;
+      const s = useTrackedState(store);
+      return s.todos[0].text;
+    });
+    expect(result.current).toBe("A");
+
+    act(() => store.setState((p) => ({ ...p, tick: 1 })));
+    act(() => store.setState(setTodo(1, { text: "B2" })));
+    act(() => store.setState(setTodo(0, { done: true })));
+    expect(renders).toBe(1);
+
+    act(() => store.setState(setTodo(0, { text: "A2" })));
+    expect(renders).toBe(2);
+    expect(result.current).toBe("A2");
+  });
+
+  it("tracks array length and iteration", () => {
+    const store = makeStore(initial);
+    let renders = 0;
+
+    const { result } = renderHook(() => {
+      renders++;
+      return useTrackedState(store).todos.map((t) => t.text);
+    });
+
+    act(() => store.setState(setTodo(0, { done: true })));
+    expect(renders).toBe(1);
+
+    act(() =>
+      store.setState((p) => ({
+        ...p,
+        todos: [...p.todos, { id: "3", text: "C", done: false }],
+      }))
+    );
+    expect(result.current).toEqual(["A", "B", "C"]);
+    expect(renders).toBe(2);
+  });
+
+  it("tracks objects used as a whole by identity", () => {
+    const store = makeStore(initial);
+    let renders = 0;
+
+    const { result } = renderHook(() => {
+      renders++;
+      const ui = useTrackedState(store).ui;
+      return React.useMemo(() => ({ ...ui }), [ui]);
+    });
+    expect(result.current).toEqual({ modalOpen: false });
+
+    act(() => store.setState((p) => ({ ...p, tick: 1 })));
+    expect(renders).toBe(1);
+
+    act(() => store.setState((p) => ({ ...p, ui: { modalOpen: true } })));
+    expect(result.current).toEqual({ modalOpen: true });
+  });
+
+  it("reads fresh values for paths first read after an untracked change", () => {
+    const store = makeStore(initial);
+
+    function View({ showTick }: { showTick: boolean }) {
+      const s = useTrackedState(store);
+      return <span>{showTick ? `tick:${s.tick}` : s.todos[0].text}</span>;
+    }
+
+    const { container, rerender } = render(<View showTick={false} />);
+    act(() => store.setState((p) => ({ ...p, tick: 5 })));
+    expect(container.textContent).toBe("A");
+
+    rerender(<View showTick />);
+    expect(container.textContent).toBe("tick:5");
+
+    act(() => store.setState((p) => ({ ...p, tick: 6 })));
+    expect(container.textContent).toBe("tick:6");
+  });
+
+  it("reads and tracks frozen state", () => {
+    const deepFreeze = <V,>(v: V): V => {
+      if (typeof v === "object" && v !== null)
+        Object.values(Object.freeze(v)).forEach(deepFreeze);
+      return v;
+    };
+    const store = makeStore(deepFreeze(structuredClone(initial)));
+    let renders = 0;
+
+    const { result } = renderHook(() => {
+      renders++;
+      const s = useTrackedState(store);
+      return `${s.todos[0].text}:${s.todos.length}:${Object.keys(s.ui)}`;
+    });
+    expect(result.current).toBe("A:2:modalOpen");
+
+    act(() => store.setState((p) => deepFreeze({ ...p, tick: 1 })));
+    expect(renders).toBe(1);
+
+    act(() => store.setState((p) => deepFreeze(setTodo(0, { text: "A2" })(p))));
+    expect(renders).toBe(2);
+    expect(result.current).toBe("A2:2:modalOpen");
+  });
+
+  it("has a context variant", () => {
+    const Tiny = createContextSync<AppState>();
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <Tiny.Provider initial={initial}>{children}</Tiny.Provider>
+    );
+
+    const { result } = renderHook(() => Tiny.useTrackedState().todos[1].text, {
+      wrapper,
+    });
+
+    expect(result.current).toBe("B");
+  });
+});
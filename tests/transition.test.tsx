@@ -0,0 +1,124 @@
+import React from "react";
+import { describe, it, expect, vi } from "vitest";
+import { render, renderHook, act, screen } from "@testing-library/react";
+
+import {
+  batch,
+  bindStoreActions,
+  createContextSync,
+  makeStore,
+  setInTransition,
+  subscribeWithSelector,
+  useDeferredStoreSelector,
+} from "../src";
+
+type AppState = { filter: string; items: string[] };
+
+const initial = (): AppState => ({
+  filter: "",
+  items: ["apple", "banana", "cherry"],
+});
+
+describe("@acoolhq/react-tiny-store - concurrent rendering", () => {
+  it("useDeferredStoreSelector lags one render behind and reports isPending", () => {
+    const store = makeStore(initial());
+    const log: [string, boolean][] = [];
+    function Results() {
+      const [filter, isPending] = useDeferredStoreSelector(
+        store,
+        (s) => s.filter
+      );
+      log.push([filter, isPending]);
+      return <p>{filter}</p>;
+    }
+
+    render(<Results />);
+    expect(log).toEqual([["", false]]);
+
+    act(() => store.setState((p) => ({ ...p, filter: "an" })));
+
+    expect(log).toEqual([
+      ["", false],
+      ["", true],
+      ["an", false],
+    ]);
+    expect(screen.getByText("an")).toBeTruthy();
+  });
+
+  it("setInTransition writes inside React.startTransition", () => {
+    const store = makeStore(initial());
+    const start = vi.spyOn(React, "startTransition");
+    const inTransition: boolean[] = [];
+    store.subscribe(() => inTransition.push(start.mock.calls.length > 0));
+
+    setInTransition(store, (p) => ({ ...p, filter: "b" }), { label: "filter" });
+
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(store.getState().filter).toBe("b");
+    expect(inTransition).toEqual([true]);
+    start.mockRestore();
+  });
+
+  it("renders React state set by store listeners as a transition", async () => {
+    const store = makeStore(initial());
+    function Filtered() {
+      const [items, setItems] = React.useState(store.getState().items);
+      React.useEffect(
+        () =>
+          subscribeWithSelector(
+            store,
+            (s) => s.items.filter((i) => i.includes(s.filter)),
+            setItems,
+            { equalityFn: (a, b) => a.join() === b.join() }
+          ),
+        []
+      );
+      return <p>{items.join(",")}</p>;
+    }
+    const useActions = bindStoreActions(store, (api) => ({
+      filter: (filter: string) =>
+        api.setInTransition((p) => ({ ...p, filter })),
+    }));
+
+    render(<Filtered />);
+    const { result } = renderHook(() => useActions());
+    await act(async () => result.current.filter("an"));
+
+    expect(screen.getByText("banana")).toBeTruthy();
+  });
+
+  it("joins an enclosing batch and notifies when it ends", () => {
+    const store = makeStore(initial());
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    batch(() => {
+      setInTransition(store, (p) => ({ ...p, filter: "a" }));
+      store.setState((p) => ({ ...p, items: [] }));
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getState()).toEqual({ filter: "a", items: [] });
+  });
+
+  it("context useDeferredSelector", () => {
+    const Tiny = createContextSync<AppState>();
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <Tiny.Provider initial={initial()}>{children}</Tiny.Provider>
+    );
+
+    const { result } = renderHook(
+      () => ({
+        deferred: Tiny.useDeferredSelector((s) => s.filter),
+        api: Tiny.useStoreApi(),
+      }),
+      { wrapper }
+    );
+    act(() =>
+      setInTransition(result.current.api, (p) => ({ ...p, filter: "c" }))
+    );
+
+    expect(result.current.deferred).toEqual(["c", false]);
+  });
+});
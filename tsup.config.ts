@@ -1,9 +1,10 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: ["src/index.ts", "src/testing.ts"],
   format: ["esm", "cjs"], // dist/index.mjs + dist/index.cjs
   dts: true, // dist/index.d.ts
+  splitting: true, // one shared store module, also for cjs
   sourcemap: true,
   clean: true,
   outDir: "dist",